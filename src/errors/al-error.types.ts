@@ -142,3 +142,62 @@ export class AlNotFoundError extends AlBaseError
         super( message );
     }
 }
+
+/**
+ * @public
+ *
+ * Used to indicate that a URL could not be translated into another environment or residency.
+ *
+ * @param message - A general description of the error.
+ * @param url - The URL that could not be translated.
+ * @param reason - 'unrecognized' if the URL does not belong to a known location, or 'no-equivalent' if its location has no node in the target context.
+ * @param locTypeId - The location type of the URL, if it was recognized.
+ * @param targetContext - The effective context that the URL was being translated into.
+ */
+export class AlLocationTranslationError extends AlBaseError
+{
+    constructor( message:string,
+                 public url:string,
+                 public reason:"unrecognized"|"no-equivalent",
+                 public locTypeId?:string,
+                 public targetContext?:any ) {
+        super( message );
+    }
+}
+
+/**
+ * @public
+ *
+ * Used to indicate that an entitlement expression (e.g., the `entitlements` property of a route condition) could not be parsed.
+ *
+ * @param message - A description of the syntax error.
+ * @param expression - The expression that could not be parsed.
+ * @param position - The zero-based offset of the offending character or token.
+ */
+export class AlEntitlementExpressionError extends AlBaseError
+{
+    constructor( message:string,
+                 public expression:string,
+                 public position:number ) {
+        super( message );
+    }
+}
+
+/**
+ * @public
+ *
+ * Used to indicate that locally supplied data -- such as a document checked against a JSON schema, a location topology, or a snapshot --
+ * is not valid.  Unlike AlResponseValidationError, this does not indicate a problem with a response from an API.
+ *
+ * @param message - A general description of the error.
+ * @param errors - Descriptions of the individual validation failures.
+ * @param schemaId - The ID of the schema the data was validated against, if any.
+ */
+export class AlDataValidationError extends AlBaseError
+{
+    constructor( message:string,
+                 public errors:any[] = [],
+                 public schemaId?:string ) {
+        super( message );
+    }
+}
@@ -0,0 +1,174 @@
+/**
+ *  A parser and evaluator for entitlement expressions, such as `cloud_defender|cloud_insight&!tmc`, used by route conditions.
+ *
+ *  Author: Kevin Nielsen <knielsen@alertlogic.com>
+ *  Copyright 2019 Alert Logic, Inc.
+ */
+
+import { AlEntitlementExpressionError } from '../errors';
+
+/**
+ * @public
+ *
+ * A node in a parsed entitlement expression.
+ */
+export interface AlEntitlementExpressionNode
+{
+    type:"or"|"and"|"not"|"entitlement";
+    operands?:AlEntitlementExpressionNode[];        //  For 'or', 'and', and 'not' nodes
+    entitlement?:string;                            //  For 'entitlement' nodes, the entitlement ID or wildcard pattern
+    pattern?:RegExp;                                //  For 'entitlement' nodes containing wildcards
+}
+
+/**
+ * @public
+ *
+ * A parsed entitlement expression.  The grammar, in order of increasing precedence, is:
+ *
+ *     - `a|b` - true if either operand is true
+ *     - `a&b` - true if both operands are true
+ *     - `!a` - true if the operand is false
+ *     - `(a)` - grouping
+ *     - `cloud_*` - an entitlement ID, in which `*` matches any sequence of characters
+ *
+ * Entitlement IDs may contain letters, digits, and the characters `_`, `-`, `.`, and `:`.  Whitespace is ignored.
+ */
+export class AlEntitlementExpression
+{
+    protected static identifierCharacter = /[a-zA-Z0-9_\-.:*]/;
+
+    public root:AlEntitlementExpressionNode = { type: "and", operands: [] };
+
+    protected offset = 0;
+
+    /**
+     * Use `AlEntitlementExpression.parse` to create expressions.
+     */
+    protected constructor( public source:string ) {
+    }
+
+    /**
+     * Parses an entitlement expression.
+     *
+     * @throws AlEntitlementExpressionError if the expression is not well formed.
+     */
+    public static parse( source:string ):AlEntitlementExpression {
+        const expression = new AlEntitlementExpression( source );
+        expression.root = expression.parseDisjunction();
+        expression.skipWhitespace();
+        if ( expression.offset < source.length ) {
+            expression.fail( `Unexpected '${source[expression.offset]}'` );
+        }
+        return expression;
+    }
+
+    /**
+     * Parses and evaluates an entitlement expression in a single step.
+     *
+     * @throws AlEntitlementExpressionError if the expression is not well formed.
+     */
+    public static evaluate( source:string, entitlements:string[] ):boolean {
+        return AlEntitlementExpression.parse( source ).evaluate( entitlements );
+    }
+
+    /**
+     * Evaluates the expression against a set of entitlement IDs.
+     */
+    public evaluate( entitlements:string[] ):boolean {
+        return this.evaluateNode( this.root, entitlements );
+    }
+
+    /**
+     * Lists the entitlement IDs and patterns referenced by the expression.
+     */
+    public getEntitlements():string[] {
+        const entitlements:string[] = [];
+        const collect = ( node:AlEntitlementExpressionNode ) => {
+            if ( node.entitlement && ! entitlements.includes( node.entitlement ) ) {
+                entitlements.push( node.entitlement );
+            }
+            ( node.operands || [] ).forEach( collect );
+        };
+        collect( this.root );
+        return entitlements;
+    }
+
+    protected evaluateNode( node:AlEntitlementExpressionNode, entitlements:string[] ):boolean {
+        const operands = node.operands || [];
+        switch( node.type ) {
+            case "or" :
+                return operands.some( operand => this.evaluateNode( operand, entitlements ) );
+            case "and" :
+                return operands.every( operand => this.evaluateNode( operand, entitlements ) );
+            case "not" :
+                return ! this.evaluateNode( operands[0], entitlements );
+            default :
+                return node.pattern
+                    ? entitlements.some( entitlement => ( node.pattern as RegExp ).test( entitlement ) )
+                    : entitlements.includes( node.entitlement as string );
+        }
+    }
+
+    protected parseDisjunction():AlEntitlementExpressionNode {
+        const operands = [ this.parseConjunction() ];
+        while ( this.accept( "|" ) ) {
+            operands.push( this.parseConjunction() );
+        }
+        return operands.length === 1 ? operands[0] : { operands, type: "or" };
+    }
+
+    protected parseConjunction():AlEntitlementExpressionNode {
+        const operands = [ this.parseUnary() ];
+        while ( this.accept( "&" ) ) {
+            operands.push( this.parseUnary() );
+        }
+        return operands.length === 1 ? operands[0] : { operands, type: "and" };
+    }
+
+    protected parseUnary():AlEntitlementExpressionNode {
+        if ( this.accept( "!" ) ) {
+            return { type: "not", operands: [ this.parseUnary() ] };
+        }
+        if ( this.accept( "(" ) ) {
+            const start = this.offset - 1;
+            const node = this.parseDisjunction();
+            if ( ! this.accept( ")" ) ) {
+                this.fail( `Unclosed '(' at position ${start}` );
+            }
+            return node;
+        }
+        this.skipWhitespace();
+        const start = this.offset;
+        while ( this.offset < this.source.length && AlEntitlementExpression.identifierCharacter.test( this.source[this.offset] ) ) {
+            this.offset++;
+        }
+        if ( this.offset === start ) {
+            this.fail( this.offset < this.source.length ? `Unexpected '${this.source[this.offset]}'` : `Unexpected end of expression` );
+        }
+        const entitlement = this.source.substring( start, this.offset );
+        const node:AlEntitlementExpressionNode = { entitlement, type: "entitlement" };
+        if ( entitlement.includes( "*" ) ) {
+            node.pattern = new RegExp( "^" + entitlement.split( "*" ).map( part => part.replace( /[.\-]/g, '\\$&' ) ).join( ".*" ) + "$" );
+        }
+        return node;
+    }
+
+    protected accept( token:string ):boolean {
+        this.skipWhitespace();
+        if ( this.source[this.offset] === token ) {
+            this.offset++;
+            return true;
+        }
+        return false;
+    }
+
+    protected skipWhitespace() {
+        while ( this.offset < this.source.length && /\s/.test( this.source[this.offset] ) ) {
+            this.offset++;
+        }
+    }
+
+    protected fail( message:string ):never {
+        throw new AlEntitlementExpressionError( `${message} in entitlement expression '${this.source}'`, this.source, this.offset );
+    }
+}
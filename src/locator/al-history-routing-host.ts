@@ -0,0 +1,390 @@
+/**
+ *  A framework-neutral routing host that tracks the current URL through the History API (or a stand-in), extracts route parameters from it,
+ *  and executes route actions.
+ *
+ *  Author: Kevin Nielsen <knielsen@alertlogic.com>
+ *  Copyright 2019 Alert Logic, Inc.
+ */
+
+import {
+    AlNavigationSchema,
+    AlRoute,
+    AlRouteCondition,
+    AlRouteDefinition,
+    AlRouteGuard,
+    AlRouteGuardOutcome,
+    AlRouteMatch,
+    AlRoutingHost
+} from './al-route.types';
+import { AlEntitlementExpression } from './al-entitlement-expression';
+import { AlLocatorService } from './al-locator.service';
+import { AlTrigger, AlTriggeredEvent, AlTriggerStream } from '../utility/al-trigger.types';
+
+/**
+ * @public
+ *
+ * Published when a route with a 'trigger' action is dispatched.
+ */
+export class AlRouteTriggerEvent extends AlTriggeredEvent<void>
+{
+    constructor( public triggerName:string,
+                 public route:AlRoute,
+                 public parameters:{[parameter:string]:string} = {} ) {
+        super();
+    }
+}
+AlTrigger( "AlRouteTrigger" )( AlRouteTriggerEvent );
+
+/**
+ * @public
+ *
+ * Published when the current URL of an AlHistoryRoutingHost changes, either by dispatching a route or by the user navigating through their history.
+ */
+export class AlRouteNavigationEvent extends AlTriggeredEvent<void>
+{
+    constructor( public url:string,
+                 public previousUrl:string ) {
+        super();
+    }
+}
+AlTrigger( "AlRouteNavigation" )( AlRouteNavigationEvent );
+
+/**
+ * @public
+ *
+ * Published when a route is dispatched through `AlRoute.dispatch`, with the outcome of its guards.
+ */
+export class AlRouteGuardEvent extends AlTriggeredEvent<void>
+{
+    constructor( public outcome:AlRouteGuardOutcome ) {
+        super();
+    }
+}
+AlTrigger( "AlRouteGuard" )( AlRouteGuardEvent );
+
+/**
+ * @public
+ *
+ * Provides access to the current URL and the navigation history.
+ */
+export abstract class AlHistoryAdapter
+{
+    /**
+     * Creates the adapter appropriate for the current platform: an AlBrowserHistoryAdapter if a window with the History API is present,
+     * or an AlMemoryHistoryAdapter otherwise.
+     */
+    public static detect():AlHistoryAdapter {
+        return typeof( window ) !== 'undefined' && window.history ? new AlBrowserHistoryAdapter() : new AlMemoryHistoryAdapter();
+    }
+
+    public abstract getUrl():string;
+
+    /**
+     * Adds a URL within the current application to the history, without reloading.
+     */
+    public abstract push( url:string ):void;
+
+    /**
+     * Leaves the current application for another URL.
+     */
+    public abstract navigate( url:string ):void;
+
+    /**
+     * Registers a callback to be invoked when the user navigates through the history (e.g., with the back button).
+     *
+     * @returns A function that unregisters the callback.
+     */
+    public abstract listen( callback:{(url:string):void} ):{():void};
+}
+
+/**
+ * @public
+ *
+ * Uses `window.location` and `window.history`.
+ */
+export class AlBrowserHistoryAdapter extends AlHistoryAdapter
+{
+    public getUrl():string {
+        return window.location.href;
+    }
+
+    public push( url:string ) {
+        window.history.pushState( {}, "", url );
+    }
+
+    public navigate( url:string ) {
+        window.location.assign( url );
+    }
+
+    public listen( callback:{(url:string):void} ):{():void} {
+        const listener = () => callback( this.getUrl() );
+        window.addEventListener( "popstate", listener );
+        return () => window.removeEventListener( "popstate", listener );
+    }
+}
+
+/**
+ * @public
+ *
+ * Keeps the history in memory.  Useful for tests and for environments without a browser.
+ */
+export class AlMemoryHistoryAdapter extends AlHistoryAdapter
+{
+    public entries:string[];
+    public position:number = 0;
+    public navigations:string[] = [];           //  URLs outside the current application that have been navigated to
+
+    protected listeners:{(url:string):void}[] = [];
+
+    constructor( initialUrl:string = "http://localhost:9999/" ) {
+        super();
+        this.entries = [ initialUrl ];
+    }
+
+    public getUrl():string {
+        return this.entries[this.position];
+    }
+
+    public push( url:string ) {
+        this.entries = this.entries.slice( 0, this.position + 1 ).concat( url );
+        this.position = this.entries.length - 1;
+    }
+
+    public navigate( url:string ) {
+        this.navigations.push( url );
+        this.push( url );
+    }
+
+    public listen( callback:{(url:string):void} ):{():void} {
+        this.listeners.push( callback );
+        return () => this.listeners = this.listeners.filter( listener => listener !== callback );
+    }
+
+    /**
+     * Moves through the history, like the browser's back and forward buttons.
+     */
+    public go( delta:number ) {
+        const position = Math.max( 0, Math.min( this.entries.length - 1, this.position + delta ) );
+        if ( position !== this.position ) {
+            this.position = position;
+            this.listeners.forEach( listener => listener( this.getUrl() ) );
+        }
+    }
+}
+
+/**
+ * @public
+ *
+ * A complete routing host.
+ *
+ *     - `currentUrl` is read from the history adapter.
+ *     - Route parameters are extracted from the query string (including a query inside a hash-routed fragment) and from any path patterns
+ *       registered with `addRoutePattern`, and are updated whenever the URL changes.  Parameters set with `setRouteParameter` are retained until
+ *       they are deleted or replaced by a parameter from the URL.
+ *     - Named routes are retrieved from the navigation schema, if one is provided.
+ *     - 'link' actions are resolved through AlLocatorService.  Links to the acting location are pushed onto the history; other links leave the application.
+ *     - 'trigger' actions are published on `events` as AlRouteTriggerEvent, changes to the current URL as AlRouteNavigationEvent, and the outcomes
+ *       of guarded dispatches as AlRouteGuardEvent.
+ *     - Guards registered with `addGuard` are consulted before any route is dispatched.
+ *     - 'callback' actions are invoked directly.
+ *     - Entitlement conditions are evaluated against `entitlements`.
+ */
+export class AlHistoryRoutingHost implements AlRoutingHost
+{
+    public routeParameters:{[parameter:string]:string} = {};
+    public entitlements?:string[];
+    public guards:AlRouteGuard[] = [];
+    public events:AlTriggerStream = new AlTriggerStream();
+
+    protected bookmarks:{[bookmarkId:string]:AlRoute} = {};
+    protected patterns:{pattern:string, expression:RegExp, parameters:string[]}[] = [];
+    protected urlParameters:string[] = [];
+    protected lastUrl:string;
+    protected unlisten:{():void};
+
+    constructor( public navigationSchema?:AlNavigationSchema,
+                 public history:AlHistoryAdapter = AlHistoryAdapter.detect() ) {
+        this.lastUrl = this.history.getUrl();
+        this.unlisten = this.history.listen( () => this.synchronize() );
+        this.extractParameters();
+    }
+
+    public get currentUrl():string {
+        return this.history.getUrl();
+    }
+
+    /**
+     * Registers a path pattern from which route parameters are extracted, e.g. `/#/incidents/:accountId/:incidentId`.  Patterns are matched against
+     * the portion of the URL following its origin, in the order they were registered; the first match is used.
+     */
+    public addRoutePattern( pattern:string ) {
+        const parameters:string[] = [];
+        const expression = pattern.split( /(:[a-zA-Z_][a-zA-Z0-9_]*)/ ).map( ( part, index ) => {
+            if ( index % 2 === 1 ) {
+                parameters.push( part.substring( 1 ) );
+                return "([^/?#]+)";
+            }
+            return part.replace( /[.*+?^${}()|[\]\\\/]/g, '\\$&' );
+        } ).join( "" );
+        this.patterns.push( { pattern, parameters, expression: new RegExp( `^${expression}(?:[/?]|$)` ) } );
+        this.extractParameters();
+    }
+
+    /**
+     * Registers a guard that is consulted before any route is dispatched.
+     *
+     * @returns A function that unregisters the guard.
+     */
+    public addGuard( guard:AlRouteGuard ):{():void} {
+        this.guards.push( guard );
+        return () => this.guards = this.guards.filter( candidate => candidate !== guard );
+    }
+
+    /**
+     * Finds the route within a menu that matches the current URL, and sets its path parameters as route parameters.  Like other parameters
+     * extracted from the URL, they are discarded when the URL changes.
+     */
+    public applyRoute( menu:AlRoute ):AlRouteMatch|null {
+        const match = menu.findRouteByUrl( this.currentUrl );
+        if ( match ) {
+            Object.keys( match.parameters ).forEach( parameter => {
+                this.setRouteParameter( parameter, match.parameters[parameter] );
+                if ( ! this.urlParameters.includes( parameter ) ) {
+                    this.urlParameters.push( parameter );
+                }
+            } );
+        }
+        return match;
+    }
+
+    public setRouteParameter( parameter:string, value:string ) {
+        this.routeParameters[parameter] = value;
+    }
+
+    public deleteRouteParameter( parameter:string ) {
+        delete this.routeParameters[parameter];
+    }
+
+    public getRouteByName( routeName:string ):AlRouteDefinition|undefined {
+        return this.navigationSchema && this.navigationSchema.namedRoutes.hasOwnProperty( routeName )
+            ? this.navigationSchema.namedRoutes[routeName]
+            : undefined;
+    }
+
+    public setBookmark( bookmarkId:string, route:AlRoute ) {
+        this.bookmarks[bookmarkId] = route;
+    }
+
+    public getBookmark( bookmarkId:string ):AlRoute {
+        return this.bookmarks[bookmarkId];
+    }
+
+    /**
+     * Executes a route's action.  For 'link' actions, `params` are set as route parameters before the link is resolved; for 'trigger' actions,
+     * they are included in the published event.
+     */
+    public dispatch( route:AlRoute, params?:{[param:string]:string} ) {
+        const action = route.getRouteAction();
+        if ( ! action ) {
+            console.warn( `Warning: cannot dispatch route '${route.caption}', which has no action` );
+            return;
+        }
+        if ( action.type === 'link' ) {
+            if ( params ) {
+                Object.keys( params ).forEach( parameter => this.setRouteParameter( parameter, params[parameter] ) );
+            }
+            const href = route.toHref();
+            if ( ! href || ! route.visible ) {
+                console.warn( `Warning: cannot dispatch route '${route.caption}', whose link could not be resolved` );
+                return;
+            }
+            const actor = AlLocatorService.getActingNode();
+            const target = action.location ? AlLocatorService.getNode( action.location ) : null;
+            if ( actor && target && actor.locTypeId === target.locTypeId && ! action.url ) {
+                this.history.push( href );
+                this.synchronize();
+            } else {
+                this.history.navigate( href );
+            }
+        } else if ( action.type === 'trigger' ) {
+            this.events.trigger( new AlRouteTriggerEvent( action.trigger as string, route, params ) );
+        } else if ( action.type === 'callback' && action.callback ) {
+            action.callback( route );
+        } else {
+            console.warn( `Warning: cannot dispatch route '${route.caption}', which has an unsupported action type '${action.type}'` );
+        }
+    }
+
+    /**
+     * Evaluates entitlement conditions against `entitlements`.  Routes evaluate these conditions directly when `entitlements` is set,
+     * so this is only consulted when it isn't, in which case entitlement conditions are false.
+     */
+    public evaluate( condition:AlRouteCondition ):boolean {
+        return condition.entitlements && this.entitlements ? AlEntitlementExpression.evaluate( condition.entitlements, this.entitlements ) : false;
+    }
+
+    public reportGuardOutcome( outcome:AlRouteGuardOutcome ) {
+        this.events.trigger( new AlRouteGuardEvent( outcome ) );
+    }
+
+    /**
+     * Stops listening to the history.
+     */
+    public dispose() {
+        this.unlisten();
+    }
+
+    /**
+     * Updates route parameters after the URL changes, and publishes an AlRouteNavigationEvent.
+     */
+    protected synchronize() {
+        const url = this.history.getUrl();
+        if ( url === this.lastUrl ) {
+            return;
+        }
+        const previousUrl = this.lastUrl;
+        this.lastUrl = url;
+        this.extractParameters();
+        this.events.trigger( new AlRouteNavigationEvent( url, previousUrl ) );
+    }
+
+    protected extractParameters() {
+        const url = this.history.getUrl();
+        const parameters:{[parameter:string]:string} = {};
+        const queryIndex = url.indexOf( "?" );
+        if ( queryIndex >= 0 ) {
+            let query = url.substring( queryIndex + 1 );
+            if ( query.includes( "#" ) ) {
+                query = query.substring( 0, query.indexOf( "#" ) );
+            }
+            query.split( "&" ).filter( pair => pair.length > 0 ).forEach( pair => {
+                const separator = pair.indexOf( "=" );
+                const name = separator >= 0 ? pair.substring( 0, separator ) : pair;
+                const value = separator >= 0 ? pair.substring( separator + 1 ) : "";
+                parameters[this.decode( name )] = this.decode( value.replace( /\+/g, " " ) );
+            } );
+        }
+        const path = url.replace( /^([a-zA-Z][a-zA-Z0-9+.\-]*:\/\/)?[^\/?#]*/, "" );
+        for ( let pattern of this.patterns ) {
+            const match = pattern.expression.exec( path );
+            if ( match ) {
+                pattern.parameters.forEach( ( parameter, index ) => parameters[parameter] = this.decode( match[index + 1] ) );
+                break;
+            }
+        }
+        this.urlParameters.forEach( parameter => this.deleteRouteParameter( parameter ) );
+        this.urlParameters = Object.keys( parameters );
+        this.urlParameters.forEach( parameter => this.setRouteParameter( parameter, parameters[parameter] ) );
+    }
+
+    /**
+     * Decodes a URL component, keeping the raw value if it is malformed (e.g., `%E0`) rather than letting a bad link break navigation.
+     */
+    protected decode( value:string ):string {
+        try {
+            return decodeURIComponent( value );
+        } catch( e ) {
+            return value;
+        }
+    }
+}
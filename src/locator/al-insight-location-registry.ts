@@ -0,0 +1,218 @@
+/**
+ *  A mutable registry of insight locations, along with the rules used to select a concrete location when a context refers to a location
+ *  that has alternatives (e.g., insight-us-virginia, which may be served by either defender-us-denver or defender-us-ashburn).
+ *
+ *  Author: Kevin Nielsen <knielsen@alertlogic.com>
+ *  Copyright 2019 Alert Logic, Inc.
+ */
+
+/**
+ * @public
+ *
+ * Describes a single insight location (as reported by AIMS and the locations service).
+ */
+export interface AlInsightLocation
+{
+    residency:string;
+    residencyCaption:string;
+    alternatives?:string[];             //  Locations that may stand in for this one, in their default order of preference
+    logicalRegion:string;
+}
+
+/**
+ * @public
+ *
+ * Describes a request to select one of an insight location's alternatives.
+ */
+export interface AlInsightLocationRequest
+{
+    insightLocationId:string;
+    location:AlInsightLocation;
+    accessible:string[];
+    registry:AlInsightLocationRegistry;
+}
+
+/**
+ * @public
+ *
+ * A fallback rule.  `filter` excludes candidates outright; `score` ranks the remaining candidates, with lower scores preferred.
+ * Rules with lower ranks take precedence: candidates are ordered by the scores of the first rule, ties are broken by the scores of the next,
+ * and so on, with any remaining ties broken by the order of the location's `alternatives`.
+ */
+export interface AlInsightLocationFallbackRule
+{
+    name:string;
+    rank?:number;
+    filter?:( candidateId:string, request:AlInsightLocationRequest ) => boolean;
+    score?:( candidateId:string, request:AlInsightLocationRequest ) => number;
+}
+
+/**
+ * A registered fallback rule, with its effective rank and the order in which it was added (which breaks ties between equal ranks).
+ */
+interface AlRankedFallbackRule extends AlInsightLocationFallbackRule
+{
+    rank:number;
+    sequence:number;
+}
+
+/**
+ * @public
+ *
+ * Describes the outcome of selecting an alternative for an insight location.
+ */
+export interface AlInsightLocationDecision
+{
+    requested:string;                   //  The insight location ID in the context
+    selected:string;                    //  The insight location ID that will be used instead
+    candidates:string[];                //  The alternatives that survived filtering, in ranked order
+    accessible:string[];
+    reason:"accessible"|"default"|"unchanged";      //  Whether the selection was the best accessible candidate, the best candidate overall, or no candidate was eligible
+}
+
+/**
+ * @public
+ *
+ * Holds the insight locations known to a locator, and selects among a location's alternatives using ranked fallback rules.
+ * In the absence of rules, the first alternative that is accessible is selected; if none are accessible, the first alternative is selected.
+ */
+export class AlInsightLocationRegistry
+{
+    public onDecision?:( decision:AlInsightLocationDecision ) => void;
+
+    protected locations:{[locationId:string]:AlInsightLocation} = {};
+    protected rules:AlRankedFallbackRule[] = [];
+    protected sequence:number = 0;
+
+    constructor( protected defaults:{[locationId:string]:AlInsightLocation} = {} ) {
+        this.reset();
+    }
+
+    /**
+     * Creates a rule that prefers candidates in the given order.  Candidates that aren't listed are ranked after those that are.
+     */
+    public static byPreference( order:string[], rank?:number ):AlInsightLocationFallbackRule {
+        return {
+            name: "preference",
+            rank: rank,
+            score: candidateId => order.includes( candidateId ) ? order.indexOf( candidateId ) : order.length
+        };
+    }
+
+    /**
+     * Creates a rule that prefers the candidates with the lowest latencies.  `latencies` is consulted at selection time, so it may be updated
+     * as measurements are taken; candidates without a measurement are ranked after those with one.
+     */
+    public static byLatency( latencies:{[locationId:string]:number}, rank?:number ):AlInsightLocationFallbackRule {
+        return {
+            name: "latency",
+            rank: rank,
+            score: candidateId => latencies.hasOwnProperty( candidateId ) ? latencies[candidateId] : Number.MAX_VALUE
+        };
+    }
+
+    /**
+     * Creates a rule that excludes candidates outside of a given residency, or (by default) outside of the requested location's residency.
+     */
+    public static residencyLock( residency?:string, rank?:number ):AlInsightLocationFallbackRule {
+        return {
+            name: "residency-lock",
+            rank: rank,
+            filter: ( candidateId, request ) => {
+                const candidate = request.registry.get( candidateId );
+                return !! candidate && candidate.residency === ( residency || request.location.residency );
+            }
+        };
+    }
+
+    /**
+     * Adds or replaces insight locations.
+     */
+    public register( locations:{[locationId:string]:AlInsightLocation} ) {
+        Object.assign( this.locations, locations );
+    }
+
+    /**
+     * Modifies the properties of a registered insight location.
+     */
+    public override( locationId:string, properties:Partial<AlInsightLocation> ) {
+        if ( ! this.locations.hasOwnProperty( locationId ) ) {
+            throw new Error( `Cannot override unknown insight location '${locationId}'` );
+        }
+        this.locations[locationId] = Object.assign( {}, this.locations[locationId], properties );
+    }
+
+    public get( locationId:string ):AlInsightLocation|undefined {
+        return this.locations.hasOwnProperty( locationId ) ? this.locations[locationId] : undefined;
+    }
+
+    public has( locationId:string ):boolean {
+        return this.locations.hasOwnProperty( locationId );
+    }
+
+    public all():{[locationId:string]:AlInsightLocation} {
+        return this.locations;
+    }
+
+    /**
+     * Adds a fallback rule.  Rules without an explicit rank are ranked after any existing rules.  Rules with equal ranks take precedence in the order they are added.
+     */
+    public addRule( rule:AlInsightLocationFallbackRule ) {
+        const rank = typeof( rule.rank ) === 'number' ? rule.rank : this.rules.reduce( ( highest, existing ) => Math.max( highest, existing.rank ), 0 );
+        this.rules.push( Object.assign( {}, rule, { rank, sequence: this.sequence++ } ) );
+        this.rules.sort( ( a, b ) => ( a.rank - b.rank ) || ( a.sequence - b.sequence ) );
+    }
+
+    public clearRules() {
+        this.rules = [];
+    }
+
+    /**
+     * Restores the default insight locations and removes all fallback rules.
+     */
+    public reset() {
+        this.locations = Object.assign( {}, this.defaults );
+        this.rules = [];
+    }
+
+    /**
+     * Selects an alternative for an insight location, and reports the decision to `onDecision`.
+     *
+     * @returns The decision, or undefined if the location is unknown or has no alternatives.
+     */
+    public select( insightLocationId:string, accessible:string[] ):AlInsightLocationDecision|undefined {
+        const location = this.get( insightLocationId );
+        if ( ! location || ! location.alternatives ) {
+            return undefined;
+        }
+        const request:AlInsightLocationRequest = { insightLocationId, location, accessible, registry: this };
+        const order = location.alternatives;
+        const candidates = order.filter( candidateId => this.rules.every( rule => ! rule.filter || rule.filter( candidateId, request ) ) );
+        const scores:{[candidateId:string]:number[]} = {};
+        candidates.forEach( candidateId => {
+            scores[candidateId] = this.rules.filter( ( rule ):rule is AlRankedFallbackRule & Required<Pick<AlInsightLocationFallbackRule, "score">> => !! rule.score )
+                                            .map( rule => rule.score( candidateId, request ) );
+        } );
+        candidates.sort( ( a, b ) => {
+            for ( let i = 0; i < scores[a].length; i++ ) {
+                if ( scores[a][i] !== scores[b][i] ) {
+                    return scores[a][i] - scores[b][i];
+                }
+            }
+            return order.indexOf( a ) - order.indexOf( b );
+        } );
+
+        const preferred = candidates.find( candidateId => accessible.includes( candidateId ) );
+        const decision:AlInsightLocationDecision = {
+            requested: insightLocationId,
+            selected: preferred || candidates[0] || insightLocationId,
+            candidates: candidates,
+            accessible: accessible,
+            reason: preferred ? "accessible" : ( candidates.length ? "default" : "unchanged" )
+        };
+        if ( this.onDecision ) {
+            this.onDecision( decision );
+        }
+        return decision;
+    }
+}
@@ -0,0 +1,95 @@
+/**
+ *  Tracks the health of individual location nodes, so that AlLocatorMatrix can fail over to equivalent alternatives when a node is degraded.
+ *
+ *  Author: Kevin Nielsen <knielsen@alertlogic.com>
+ *  Copyright 2019 Alert Logic, Inc.
+ */
+
+import { AlLocationDescriptor } from './al-locator.types';
+
+/**
+ * @public
+ *
+ * Describes a node that has been reported as degraded.
+ */
+export interface AlLocationHealthReport
+{
+    uri:string;
+    reason?:string;
+    expires:number;                 //  The time (as reported by the registry's clock) after which the node is considered healthy again
+}
+
+/**
+ * @public
+ *
+ * A registry of degraded nodes.  Nodes are identified by their URI, and are considered healthy unless they have been reported as degraded
+ * within their TTL.  Callers typically report degradation after failed requests or health checks.
+ */
+export class AlLocationHealthRegistry
+{
+    /**
+     * Incremented whenever a node's reported health changes, so that consumers can invalidate anything derived from it.
+     */
+    public version:number = 0;
+
+    protected reports:{[uri:string]:AlLocationHealthReport} = {};
+
+    constructor( protected clock:{now():number} = Date ) {
+    }
+
+    /**
+     * Reports a node as degraded.
+     *
+     * @param target - The node or its URI.
+     * @param ttl - The number of seconds the node should be considered degraded for.
+     * @param reason - An optional description of the problem.
+     */
+    public reportDegraded( target:AlLocationDescriptor|string, ttl:number, reason?:string ):AlLocationHealthReport {
+        const uri = typeof( target ) === 'string' ? target : target.uri;
+        this.reports[uri] = { uri, reason, expires: this.clock.now() + ( ttl * 1000 ) };
+        this.version++;
+        return this.reports[uri];
+    }
+
+    /**
+     * Reports a node as healthy, discarding any prior report of degradation.
+     */
+    public reportHealthy( target:AlLocationDescriptor|string ) {
+        const uri = typeof( target ) === 'string' ? target : target.uri;
+        if ( this.reports.hasOwnProperty( uri ) ) {
+            delete this.reports[uri];
+            this.version++;
+        }
+    }
+
+    public isDegraded( target:AlLocationDescriptor|string ):boolean {
+        const uri = typeof( target ) === 'string' ? target : target.uri;
+        if ( ! this.reports.hasOwnProperty( uri ) ) {
+            return false;
+        }
+        if ( this.reports[uri].expires <= this.clock.now() ) {
+            delete this.reports[uri];
+            return false;
+        }
+        return true;
+    }
+
+    /**
+     * Lists the nodes that are currently degraded.
+     */
+    public list():AlLocationHealthReport[] {
+        return Object.keys( this.reports ).filter( uri => this.isDegraded( uri ) ).map( uri => this.reports[uri] );
+    }
+
+    /**
+     * Indicates whether any node is currently degraded.
+     */
+    public isEmpty():boolean {
+        return this.list().length === 0;
+    }
+
+    public clear() {
+        this.reports = {};
+        this.version++;
+    }
+}
@@ -0,0 +1,168 @@
+/**
+ *  Developer overrides: persistent, expirable pins of location types to custom URIs (e.g., a local development server),
+ *  which are reapplied to a locator whenever it is created.
+ *
+ *  Author: Kevin Nielsen <knielsen@alertlogic.com>
+ *  Copyright 2019 Alert Logic, Inc.
+ */
+
+import { AlLocatorMatrix } from './al-locator.types';
+import { AlCabinet } from '../utility/al-cabinet';
+
+/**
+ * @public
+ *
+ * A single developer override.
+ */
+export interface AlLocationOverride
+{
+    locTypeId:string;
+    uri:string;
+    environment?:string;            //  If provided, only nodes in this environment are overridden
+    residency?:string;              //  If provided, only nodes in this residency are overridden
+    expires:number;                 //  Expiration timestamp in milliseconds, or 0 if the override never expires
+}
+
+/**
+ * @public
+ *
+ * The location overrides in effect for a locator.  `AlLocatorMatrix.getNode` consults this layer before its registered nodes, so overrides
+ * never modify those nodes or the URI index, and removing an override restores the previous resolution exactly.  When several overrides apply
+ * to a lookup, the most specific wins: one for the environment and residency, then one for the environment, then one for the residency,
+ * and finally one for neither.  Expired overrides are ignored.
+ */
+export class AlLocationOverrideLayer
+{
+    /**
+     * Incremented whenever an override is added or removed, so that consumers can invalidate anything derived from them.
+     */
+    public version:number = 0;
+
+    protected overrides:{[key:string]:AlLocationOverride} = {};
+
+    constructor( protected clock:{now():number} = Date ) {
+    }
+
+    /**
+     * Identifies the override for a location type, environment, and residency.  Setting an override replaces any other with the same key.
+     */
+    public static getKey( override:{locTypeId:string, environment?:string, residency?:string} ):string {
+        return `${override.locTypeId}|${override.environment || '*'}|${override.residency || '*'}`;
+    }
+
+    public set( override:AlLocationOverride ) {
+        this.overrides[AlLocationOverrideLayer.getKey( override )] = override;
+        this.version++;
+    }
+
+    public remove( key:string ) {
+        if ( this.overrides.hasOwnProperty( key ) ) {
+            delete this.overrides[key];
+            this.version++;
+        }
+    }
+
+    public clear() {
+        this.overrides = {};
+        this.version++;
+    }
+
+    /**
+     * Lists the overrides that have not expired.
+     */
+    public list():AlLocationOverride[] {
+        return Object.keys( this.overrides ).map( key => this.overrides[key] ).filter( override => ! this.isExpired( override ) );
+    }
+
+    /**
+     * Indicates whether any override is in effect.
+     */
+    public isEmpty():boolean {
+        return this.list().length === 0;
+    }
+
+    /**
+     * Finds the most specific unexpired override for a location type in a given environment and residency.
+     */
+    public find( locTypeId:string, environment?:string, residency?:string ):AlLocationOverride|undefined {
+        const keys = [
+            AlLocationOverrideLayer.getKey( { locTypeId, environment, residency } ),
+            AlLocationOverrideLayer.getKey( { locTypeId, environment } ),
+            AlLocationOverrideLayer.getKey( { locTypeId, residency } ),
+            AlLocationOverrideLayer.getKey( { locTypeId } )
+        ];
+        const key = keys.find( candidate => this.overrides.hasOwnProperty( candidate ) && ! this.isExpired( this.overrides[candidate] ) );
+        return key ? this.overrides[key] : undefined;
+    }
+
+    protected isExpired( override:AlLocationOverride ):boolean {
+        return override.expires !== 0 && override.expires <= this.clock.now();
+    }
+}
+
+/**
+ * @public
+ *
+ * Manages developer overrides for a locator.  Overrides are stored in a persistent AlCabinet, so they survive reloads until they are
+ * cleared or expire, and are applied to the locator's override layer (see AlLocationOverrideLayer).  Overrides affect the resolution of links
+ * to a location (`getNode` and `resolveURL`), but not the resolution of URIs (`getNodeByURI`) or the identification of the acting node.
+ */
+export class AlLocationOverrides
+{
+    constructor( public locator:AlLocatorMatrix,
+                 public cabinet:AlCabinet = AlCabinet.persistent( "al_location_overrides" ) ) {
+    }
+
+    /**
+     * Pins a location type to a custom URI, optionally for a single environment and/or residency, and applies it immediately.
+     *
+     * @param ttl - The number of seconds the override should be retained for.  Defaults to `0` (indefinite).
+     */
+    public set( locTypeId:string, uri:string, environment?:string, residency?:string, ttl:number = 0 ):AlLocationOverride {
+        const override:AlLocationOverride = {
+            locTypeId,
+            uri,
+            environment,
+            residency,
+            expires: ttl === 0 ? 0 : this.locator.adapter.now() + ( ttl * 1000 )
+        };
+        this.cabinet.set( AlLocationOverrideLayer.getKey( override ), override, ttl );
+        this.locator.overrides.set( override );
+        return override;
+    }
+
+    /**
+     * Lists all overrides that have not expired.
+     */
+    public list():AlLocationOverride[] {
+        return Object.keys( this.cabinet.data )
+                    .map( key => this.cabinet.get( key ) )
+                    .filter( override => override !== null );
+    }
+
+    /**
+     * Removes and reverts overrides.
+     *
+     * @param locTypeId - If provided, only overrides for this location type are cleared.  Otherwise, all overrides are cleared.
+     */
+    public clear( locTypeId?:string ) {
+        Object.keys( this.cabinet.data ).forEach( key => {
+            const override:AlLocationOverride = this.cabinet.get( key, null, true );
+            if ( ! locTypeId || ( override && override.locTypeId === locTypeId ) ) {
+                this.cabinet.delete( key );
+                this.locator.overrides.remove( key );
+            }
+        } );
+    }
+
+    /**
+     * Applies all unexpired overrides to the locator.  This is called automatically when `AlLocatorService` is created.
+     *
+     * @returns The overrides that were applied.
+     */
+    public apply():AlLocationOverride[] {
+        const overrides = this.list();
+        overrides.forEach( override => this.locator.overrides.set( override ) );
+        return overrides;
+    }
+}
@@ -0,0 +1,247 @@
+/**
+ *  Declarative location topologies: JSON documents describing environments, residencies, URL templates, and per-application overrides,
+ *  which expand into the AlLocationDescriptor[] format consumed by AlLocatorMatrix.
+ *
+ *  Author: Kevin Nielsen <knielsen@alertlogic.com>
+ *  Copyright 2019 Alert Logic, Inc.
+ */
+
+import { AlLocationDescriptor } from './al-locator.types';
+import { AlMicroJsonValidator, AlJsonPropertyDescriptor, AlJsonSchema } from '../utility/al-micro-json-validator';
+import { AlDataValidationError } from '../errors';
+
+/**
+ * @public
+ *
+ * A single node within a topology template or location.  This is an AlLocationDescriptor without its `locTypeId`; string values may
+ * contain `${variable}` references, which are substituted with the variables of the location being expanded.
+ */
+export interface AlLocationTopologyNode
+{
+    environment?:string;            //  One or more environments, delimited by pipes (e.g., 'production|beta-nav-prod').  Defaults to 'production'.
+    residency?:string;
+    uri:string;
+    aliases?:string[];
+    insightLocationId?:string;
+    productType?:string;
+    aspect?:string;
+    uiCaption?:string;
+    uiEntryPoint?:{locTypeId:string, path?:string};
+    data?:any;
+    weight?:number;
+    keyword?:string;
+    hashRouting?:boolean;
+}
+
+/**
+ * @public
+ *
+ * An application-specific modification of the nodes generated by a template.  An override applies to every generated node in one of its environments
+ * (or in all environments, if none are given) and, if it specifies a residency, in that residency.  If it doesn't apply to any node, it is added as a new node.
+ */
+export interface AlLocationTopologyOverride extends Partial<AlLocationTopologyNode>
+{
+}
+
+/**
+ * @public
+ *
+ * Describes a single location type within a topology.
+ */
+export interface AlLocationTopologyLocation
+{
+    locTypeId:string;
+    template?:string;                                       //  The name of a template in the document's `templates` collection
+    variables?:{[variable:string]:string|number};           //  Values for `${variable}` references in the template and nodes
+    defaults?:Partial<AlLocationTopologyNode>;              //  Properties applied to every node of this location (e.g., `productType` or `keyword`)
+    nodes?:AlLocationTopologyNode[];                        //  Nodes for this location, in addition to those generated by its template
+    overrides?:AlLocationTopologyOverride[];
+}
+
+/**
+ * @public
+ *
+ * The top level structure of a location topology document.
+ */
+export interface AlLocationTopologyDocument
+{
+    $schema?:string;
+    environments:string[];                                  //  All environments that nodes may belong to
+    residencies:string[];                                   //  All residencies that nodes may belong to
+    templates?:{[templateId:string]:AlLocationTopologyNode[]};
+    locations:AlLocationTopologyLocation[];
+}
+
+const topologyNodeProperties:{[field:string]:AlJsonPropertyDescriptor} = {
+    environment:        { type: "string" },
+    residency:          { type: "string" },
+    uri:                { type: "string" },
+    aliases:            { type: "array", items: { type: "string" } },
+    insightLocationId:  { type: "string" },
+    productType:        { type: "string" },
+    aspect:             { type: "string" },
+    uiCaption:          { type: "string" },
+    uiEntryPoint:       { type: "object", properties: { locTypeId: { type: "string" }, path: { type: "string" } }, required: [ "locTypeId" ], additionalProperties: false },
+    data:               {},
+    weight:             { type: "number" },
+    keyword:            { type: "string" },
+    hashRouting:        { type: "boolean" }
+};
+
+/**
+ * @public
+ *
+ * The published schema for location topology documents.
+ */
+export const alLocationTopologySchema:AlJsonSchema = {
+    $id: "al-location-topology",
+    description: "Describes the environments, residencies, and URL templates of a network of interrelated applications and services.",
+    type: "object",
+    properties: {
+        $schema:        { type: "string" },
+        environments:   { type: "array", items: { type: "string" } },
+        residencies:    { type: "array", items: { type: "string" } },
+        templates:      { type: "object", additionalProperties: { type: "array", items: { $ref: "#/definitions/node" } } },
+        locations:      { type: "array", items: { $ref: "#/definitions/location" } }
+    },
+    required: [ "environments", "residencies", "locations" ],
+    additionalProperties: false,
+    definitions: {
+        node: {
+            type: "object",
+            properties: topologyNodeProperties,
+            required: [ "uri" ],
+            additionalProperties: false
+        },
+        override: {
+            type: "object",
+            properties: topologyNodeProperties,
+            additionalProperties: false
+        },
+        location: {
+            type: "object",
+            properties: {
+                locTypeId:  { type: "string" },
+                template:   { type: "string" },
+                variables:  { type: "object", additionalProperties: { type: [ "string", "number" ] } },
+                defaults:   { $ref: "#/definitions/override" },
+                nodes:      { type: "array", items: { $ref: "#/definitions/node" } },
+                overrides:  { type: "array", items: { $ref: "#/definitions/override" } }
+            },
+            required: [ "locTypeId" ],
+            additionalProperties: false
+        }
+    }
+};
+
+/**
+ * @public
+ *
+ * Validates location topology documents and expands them into location descriptors.
+ */
+export class AlLocationTopologyLoader
+{
+    /**
+     * Validates a topology document (or its JSON serialization) and expands it into a list of location descriptors suitable for `AlLocatorMatrix.setLocations`.
+     *
+     * @throws AlDataValidationError if the document does not match the topology schema, refers to undeclared environments, residencies, or templates,
+     *          or contains references to undefined variables.
+     */
+    public static load( document:AlLocationTopologyDocument|string ):AlLocationDescriptor[] {
+        const topology:AlLocationTopologyDocument = typeof( document ) === 'string' ? JSON.parse( document ) : document;
+        new AlMicroJsonValidator( alLocationTopologySchema ).validate( alLocationTopologySchema.$id, topology );
+
+        let errors:string[] = [];
+        const descriptors:AlLocationDescriptor[] = [];
+        topology.locations.forEach( ( location, index ) => {
+            const path = `.locations.${index}`;
+            let nodes:AlLocationTopologyNode[] = [];
+            if ( location.template ) {
+                if ( ! topology.templates || ! topology.templates.hasOwnProperty( location.template ) ) {
+                    errors.push( `Location at '${path}' refers to undefined template '${location.template}'` );
+                } else {
+                    nodes = nodes.concat( topology.templates[location.template] );
+                }
+            }
+            nodes = AlLocationTopologyLoader.applyOverrides( AlLocationTopologyLoader.splitEnvironments( nodes.concat( location.nodes || [] ) ), location.overrides || [] );
+            nodes.forEach( node => {
+                const descriptor:AlLocationDescriptor = AlLocationTopologyLoader.substitute( Object.assign( {}, location.defaults || {}, node, { locTypeId: location.locTypeId } ),
+                                                                                            location.variables || {},
+                                                                                            path,
+                                                                                            errors );
+                errors = errors.concat( AlLocationTopologyLoader.checkScope( descriptor, topology, path ) );
+                descriptors.push( descriptor );
+            } );
+        } );
+
+        if ( errors.length > 0 ) {
+            throw new AlDataValidationError( `The location topology is not valid`, errors, alLocationTopologySchema.$id );
+        }
+        return descriptors;
+    }
+
+    /**
+     * Generates one node per environment from nodes that span multiple environments, so that overrides can target individual environments.
+     */
+    protected static splitEnvironments( nodes:AlLocationTopologyNode[] ):AlLocationTopologyNode[] {
+        const result:AlLocationTopologyNode[] = [];
+        nodes.forEach( node => {
+            ( node.environment || 'production' ).split( "|" ).forEach( environment => {
+                result.push( Object.assign( {}, node, { environment } ) );
+            } );
+        } );
+        return result;
+    }
+
+    protected static applyOverrides( nodes:AlLocationTopologyNode[], overrides:AlLocationTopologyOverride[] ):AlLocationTopologyNode[] {
+        overrides.forEach( override => {
+            const environments = override.environment ? override.environment.split( "|" ) : undefined;
+            const targets = nodes.filter( node => ( ! environments || environments.includes( node.environment as string ) )
+                                                    && ( ! override.residency || override.residency === node.residency ) );
+            if ( targets.length > 0 ) {
+                targets.forEach( target => Object.assign( target, override, { environment: target.environment } ) );
+            } else {
+                nodes = nodes.concat( AlLocationTopologyLoader.splitEnvironments( [ override as AlLocationTopologyNode ] ) );
+            }
+        } );
+        return nodes;
+    }
+
+    /**
+     * Recursively replaces `${variable}` references in string values, excluding the node's arbitrary `data`.
+     */
+    protected static substitute( value:any, variables:{[variable:string]:string|number}, path:string, errors:string[] ):any {
+        if ( typeof( value ) === 'string' ) {
+            return value.replace( /\$\{([a-zA-Z0-9_]+)\}/g, ( match:string, variable:string ) => {
+                if ( ! variables.hasOwnProperty( variable ) ) {
+                    errors.push( `Location at '${path}' refers to undefined variable '${variable}'` );
+                    return match;
+                }
+                return variables[variable].toString();
+            } );
+        } else if ( Array.isArray( value ) ) {
+            return value.map( item => AlLocationTopologyLoader.substitute( item, variables, path, errors ) );
+        } else if ( typeof( value ) === 'object' && value !== null ) {
+            const result:any = {};
+            Object.keys( value ).forEach( key => {
+                result[key] = key === 'data' ? value[key] : AlLocationTopologyLoader.substitute( value[key], variables, path, errors );
+            } );
+            return result;
+        }
+        return value;
+    }
+
+    protected static checkScope( descriptor:AlLocationDescriptor, topology:AlLocationTopologyDocument, path:string ):string[] {
+        const errors:string[] = [];
+        if ( ! descriptor.uri ) {
+            errors.push( `Location at '${path}' has a node without a uri in environment '${descriptor.environment}'` );
+        }
+        if ( descriptor.environment && ! topology.environments.includes( descriptor.environment ) ) {
+            errors.push( `Location at '${path}' refers to undeclared environment '${descriptor.environment}'` );
+        }
+        if ( descriptor.residency && ! topology.residencies.includes( descriptor.residency ) ) {
+            errors.push( `Location at '${path}' refers to undeclared residency '${descriptor.residency}'` );
+        }
+        return errors;
+    }
+}
@@ -0,0 +1,241 @@
+/**
+ *  AlLocationURIIndex is a precompiled lookup structure used by AlLocatorMatrix to resolve literal URIs to location descriptors.
+ *
+ *  Author: Kevin Nielsen <knielsen@alertlogic.com>
+ *  Copyright 2019 Alert Logic, Inc.
+ */
+
+import { AlLocationDescriptor } from './al-locator.types';
+
+/**
+ * @public
+ *
+ * A single match expression (a location's canonical URI or one of its aliases) and the compiled state used to test it.
+ */
+export interface AlLocationURIIndexEntry
+{
+    location:AlLocationDescriptor;      //  The location descriptor this entry resolves to
+    keyword:string;                     //  The keyword the entry is filed under; a target URI must contain it in order to match
+    matchExpression:string;             //  The URI or wildcard pattern being matched
+    matcher?:RegExp;                    //  Compiled pattern, for expressions containing wildcards
+    parameters?:(string|null)[];        //  The name of each capture group in `matcher` -- null for anonymous `*` wildcards
+    rank:number;                        //  Precedence of this entry relative to all others; lowest wins
+}
+
+/**
+ * @public
+ *
+ * Diagnostic record of a single bucket examined while resolving a URI, and the entries within it that were tested.
+ */
+export interface AlLocationURIIndexProbe
+{
+    bucketKey:string;                   //  The host or wildcard pattern key that was looked up
+    tested:{entry:AlLocationURIIndexEntry, matched:boolean}[];
+}
+
+/**
+ * @public
+ *
+ * Indexes location URIs and aliases by scheme and host, so that resolving a URI to a location only requires testing the handful of
+ * patterns that could possibly match it.  Patterns without wildcards in their host are filed under their literal scheme and host; patterns
+ * with wildcards (`*` or named placeholders like `{prNumber}`) are filed under the literal labels that follow their last wildcard.  Because wildcards never match a period, a target host can only
+ * match patterns with the same number of labels, which keeps lookups to a small, fixed number of hash probes.
+ *
+ * The precedence of matches is identical to the keyword-ordered linear scan this class replaces: entries are ranked first by the order in which
+ * their keyword was first registered, then by the weight of their location, then by the order in which they were added.
+ */
+export class AlLocationURIIndex
+{
+    protected entries:AlLocationURIIndexEntry[] = [];
+    protected hosts:{[hostKey:string]:AlLocationURIIndexEntry[]} = {};
+    protected wildcards:{[patternKey:string]:AlLocationURIIndexEntry[]} = {};
+    protected shapes:{[schemeAndLabelCount:string]:boolean} = {};
+
+    /**
+     * Escapes a domain pattern.
+     *
+     * All normal regex characters are escaped; * and named placeholders like {prNumber} are converted to [a-zA-Z0-9_]+; and the whole expression is wrapped in ^....*$.
+     */
+    public static escapeLocationPattern( uri:string ):string {
+        let pattern = "^" + uri.replace(/[-\/\\^$.()|[\]{}]/g, '\\$&');     //  escape all regexp characters except *, add anchor
+        pattern = pattern.replace( /\*|\\\{[a-zA-Z0-9_]+\\\}/g, "([a-zA-Z0-9_\-]+)" );  //  convert wildcards and placeholders into group matches with 1 or more characters
+        pattern += ".*$";                                                   //  add filler and terminus anchor
+        return pattern;
+    }
+
+    /**
+     * Lists the wildcards in a pattern, in order: named placeholders (e.g., `{prNumber}`) are represented by their names, and anonymous `*` wildcards by null.
+     */
+    public static getPatternParameters( pattern:string ):(string|null)[] {
+        const parameters:(string|null)[] = [];
+        pattern.replace( /\*|\{([a-zA-Z0-9_]+)\}/g, ( match:string, name?:string ) => {
+            parameters.push( name || null );
+            return match;
+        } );
+        return parameters;
+    }
+
+    /**
+     * Generates a concrete URI from a pattern by substituting named placeholders.  Returns undefined if the pattern contains anonymous wildcards or
+     * placeholders whose values are not provided.
+     */
+    public static expandPattern( pattern:string, values:{[parameter:string]:string} ):string|undefined {
+        if ( pattern.includes( "*" ) ) {
+            return undefined;
+        }
+        let complete = true;
+        const uri = pattern.replace( /\{([a-zA-Z0-9_]+)\}/g, ( match:string, name:string ) => {
+            if ( ! values.hasOwnProperty( name ) ) {
+                complete = false;
+                return match;
+            }
+            return values[name];
+        } );
+        return complete ? uri : undefined;
+    }
+
+    /**
+     * Determines whether a pattern contains wildcards or named placeholders.
+     */
+    public static isPattern( uri:string ):boolean {
+        return /\*|\{[a-zA-Z0-9_]+\}/.test( uri );
+    }
+
+    /**
+     * Splits a URI or URI pattern into its scheme (which may be empty, for protocolless domains) and host (including port, if any).
+     */
+    public static getSchemeAndHost( uri:string ):{scheme:string,host:string} {
+        const schemeEnd = uri.indexOf( "://" );
+        const scheme = schemeEnd >= 0 ? uri.substring( 0, schemeEnd ) : '';
+        const hostStart = schemeEnd >= 0 ? schemeEnd + 3 : 0;
+        let hostEnd = hostStart;
+        while( hostEnd < uri.length && uri[hostEnd] !== '/' && uri[hostEnd] !== '?' && uri[hostEnd] !== '#' ) {
+            hostEnd++;
+        }
+        return { scheme, host: uri.substring( hostStart, hostEnd ) };
+    }
+
+    /**
+     * Adds a match expression for a given location.  The index must be rebuilt before the new entry can be matched.
+     */
+    public add( location:AlLocationDescriptor, matchExpression:string, keyword:string ) {
+        this.entries.push( { location, keyword, matchExpression, rank: this.entries.length } );
+    }
+
+    /**
+     * Removes all entries from the index.
+     */
+    public clear() {
+        this.entries = [];
+        this.hosts = {};
+        this.wildcards = {};
+        this.shapes = {};
+    }
+
+    /**
+     * Retrieves all indexed entries, in order of precedence.
+     */
+    public getEntries():AlLocationURIIndexEntry[] {
+        return this.entries;
+    }
+
+    /**
+     * Ranks all entries and compiles them into host and wildcard buckets.
+     */
+    public rebuild() {
+        const keywordOrder:{[keyword:string]:number} = {};
+        let keywordCount = 0;
+        this.entries.forEach( entry => {
+            if ( ! keywordOrder.hasOwnProperty( entry.keyword ) ) {
+                keywordOrder[entry.keyword] = keywordCount++;
+            }
+        } );
+        this.entries.sort( ( a, b ) => ( keywordOrder[a.keyword] - keywordOrder[b.keyword] )
+                                        || ( ( a.location.weight || 0 ) - ( b.location.weight || 0 ) )
+                                        || ( a.rank - b.rank ) );
+
+        this.hosts = {};
+        this.wildcards = {};
+        this.shapes = {};
+        this.entries.forEach( ( entry, index ) => {
+            entry.rank = index;
+            const { scheme, host } = AlLocationURIIndex.getSchemeAndHost( entry.matchExpression );
+            if ( AlLocationURIIndex.isPattern( entry.matchExpression ) ) {
+                entry.matcher = new RegExp( AlLocationURIIndex.escapeLocationPattern( entry.matchExpression ) );
+                entry.parameters = AlLocationURIIndex.getPatternParameters( entry.matchExpression );
+            }
+            if ( AlLocationURIIndex.isPattern( host ) ) {
+                const labels = host.split( "." );
+                let lastWildcard = labels.length - 1;
+                while( ! AlLocationURIIndex.isPattern( labels[lastWildcard] ) ) {
+                    lastWildcard--;
+                }
+                this.file( this.wildcards, `${scheme}://${labels.length}:${lastWildcard}:${labels.slice( lastWildcard + 1 ).join( "." )}`, entry );
+                this.shapes[`${scheme}://${labels.length}`] = true;
+            } else {
+                this.file( this.hosts, `${scheme}://${host}`, entry );
+            }
+        } );
+    }
+
+    /**
+     * Finds the highest precedence entry matching a given URI.
+     *
+     * @param targetURI - The URI to resolve.
+     * @param probes - If provided, a record of each bucket examined and the entries tested within it will be appended to this array.
+     */
+    public find( targetURI:string, probes?:AlLocationURIIndexProbe[] ):AlLocationURIIndexEntry|undefined {
+        const { scheme, host } = AlLocationURIIndex.getSchemeAndHost( targetURI );
+        let result = this.test( this.hosts, `${scheme}://${host}`, targetURI, probes );
+        const hostname = host.replace( /:\d*$/, '' );
+        if ( hostname !== host ) {
+            //  An explicit port (e.g., `:443`) doesn't prevent match expressions for the bare host from matching, since they are prefixes of the URI
+            const hit = this.test( this.hosts, `${scheme}://${hostname}`, targetURI, probes );
+            if ( hit && ( ! result || hit.rank < result.rank ) ) {
+                result = hit;
+            }
+        }
+        const labels = hostname.split( "." );
+        if ( this.shapes.hasOwnProperty( `${scheme}://${labels.length}` ) ) {
+            let suffix = '';
+            for ( let i = labels.length - 1; i >= 0; i-- ) {
+                const hit = this.test( this.wildcards, `${scheme}://${labels.length}:${i}:${suffix}`, targetURI, probes );
+                if ( hit && ( ! result || hit.rank < result.rank ) ) {
+                    result = hit;
+                }
+                suffix = suffix.length ? `${labels[i]}.${suffix}` : labels[i];
+            }
+        }
+        return result;
+    }
+
+    /**
+     * Returns the first entry in a bucket that matches the given URI.  Because buckets are filled in order of precedence, the first hit is the best one.
+     */
+    protected test( buckets:{[key:string]:AlLocationURIIndexEntry[]}, bucketKey:string, targetURI:string, probes?:AlLocationURIIndexProbe[] ):AlLocationURIIndexEntry|undefined {
+        const bucket = buckets[bucketKey];
+        if ( ! bucket ) {
+            return undefined;
+        }
+        const probe:AlLocationURIIndexProbe|undefined = probes ? { bucketKey, tested: [] } : undefined;
+        const hit = bucket.find( entry => {
+            const matched = targetURI.includes( entry.keyword )
+                                && ( targetURI.startsWith( entry.matchExpression ) || ( !! entry.matcher && entry.matcher.test( targetURI ) ) );
+            if ( probe ) {
+                probe.tested.push( { entry, matched } );
+            }
+            return matched;
+        } );
+        if ( probes && probe ) {
+            probes.push( probe );
+        }
+        return hit;
+    }
+
+    protected file( buckets:{[key:string]:AlLocationURIIndexEntry[]}, key:string, entry:AlLocationURIIndexEntry ) {
+        if ( ! buckets.hasOwnProperty( key ) ) {
+            buckets[key] = [];
+        }
+        buckets[key].push( entry );
+    }
+}
@@ -0,0 +1,125 @@
+/**
+ *  Static analysis of location descriptors, identifying mistakes that AlLocatorMatrix would otherwise accept silently.
+ *
+ *  Author: Kevin Nielsen <knielsen@alertlogic.com>
+ *  Copyright 2019 Alert Logic, Inc.
+ */
+
+import { AlLocationDescriptor } from './al-locator.types';
+import { AlLocationURIIndex } from './al-location-uri-index';
+
+/**
+ * @public
+ *
+ * A single problem found in a list of location descriptors.
+ *
+ *     - collision - two descriptors share a locTypeId, environment, residency, and insight location, so the later one replaces the earlier one.
+ *       This is reported as a warning, since it is sometimes deliberate (e.g., to specialize one of the nodes generated by `AlLocation.uiNode`).
+ *     - shadowed-keyword - a URI or alias resolves to a different location, because that location's keyword is a substring of its own and was registered first
+ *     - unreachable-alias - a URI or alias never resolves to its own descriptor for some other reason (e.g., its keyword doesn't appear in it)
+ *     - dangling-entry-point - `uiEntryPoint` refers to a locTypeId that has no descriptors
+ *     - malformed-uri - a URI or alias is not a valid (optionally protocolless) URL or URL pattern
+ */
+export interface AlLocationDiagnostic
+{
+    code:"collision"|"shadowed-keyword"|"unreachable-alias"|"dangling-entry-point"|"malformed-uri";
+    severity:"error"|"warning";
+    message:string;
+    index:number;                   //  The index of the offending descriptor in the validated list
+    locTypeId:string;
+    environment?:string;
+    residency?:string;
+    pattern?:string;                //  The offending URI or alias, if applicable
+    relatedIndex?:number;           //  The index of the other descriptor involved in a collision or shadowing, if applicable
+}
+
+/**
+ * @public
+ *
+ * Validates lists of location descriptors.
+ */
+export class AlLocationValidator
+{
+    protected static uriPattern = /^([a-zA-Z][a-zA-Z0-9+.\-]*:\/\/)?([a-zA-Z0-9\-_*]+|\{[a-zA-Z0-9_]+\})([.\-]([a-zA-Z0-9\-_*]+|\{[a-zA-Z0-9_]+\}))*(:[0-9]+)?(\/[^\s]*)?$/;
+
+    /**
+     * Examines a list of location descriptors and returns a list of diagnostics.  An empty list indicates that no problems were found.
+     *
+     * @param nodes - The descriptors to validate.
+     * @param knownLocTypeIds - Additional location types that entry points may refer to (e.g., those already registered with a locator).
+     */
+    public static validate( nodes:AlLocationDescriptor[], knownLocTypeIds:string[] = [] ):AlLocationDiagnostic[] {
+        const diagnostics:AlLocationDiagnostic[] = [];
+        const locTypeIds = knownLocTypeIds.concat( nodes.map( node => node.locTypeId ) );
+        const registered:{[hashKey:string]:number} = {};
+        const index = new AlLocationURIIndex();
+        const sources:{location:AlLocationDescriptor, index:number, pattern:string, keyword:string}[] = [];
+
+        nodes.forEach( ( baseNode, nodeIndex ) => {
+            const environments:string[] = typeof( baseNode.environment ) !== 'undefined' ? baseNode.environment.split("|") : [ 'production' ];
+            environments.forEach( environment => {
+                const node:AlLocationDescriptor = Object.assign( {}, baseNode, { environment: environment } );
+                const report = ( code:AlLocationDiagnostic["code"], severity:AlLocationDiagnostic["severity"], message:string, extra:Partial<AlLocationDiagnostic> = {} ) => {
+                    diagnostics.push( Object.assign( { code, severity, message, index: nodeIndex, locTypeId: node.locTypeId, environment: environment, residency: node.residency }, extra ) );
+                };
+
+                const hashKey = `${node.locTypeId}-${environment}-${node.residency || '*'}-${node.insightLocationId || '*'}`;
+                if ( registered.hasOwnProperty( hashKey ) ) {
+                    report( "collision", "warning",
+                            `Location '${node.locTypeId}' is defined more than once for environment '${environment}', residency '${node.residency || '*'}', and insight location '${node.insightLocationId || '*'}'`,
+                            { relatedIndex: registered[hashKey] } );
+                } else {
+                    registered[hashKey] = nodeIndex;
+                }
+
+                if ( node.uiEntryPoint && ! locTypeIds.includes( node.uiEntryPoint.locTypeId ) ) {
+                    report( "dangling-entry-point", "error", `Location '${node.locTypeId}' has an entry point referring to unknown location '${node.uiEntryPoint.locTypeId}'` );
+                }
+
+                const keyword = node.keyword || node.uri;
+                [ node.uri, ...( node.aliases || [] ) ].forEach( pattern => {
+                    if ( typeof( pattern ) !== 'string' || ! AlLocationValidator.uriPattern.test( pattern ) ) {
+                        report( "malformed-uri", "error", `Location '${node.locTypeId}' has a malformed URI or alias '${pattern}'`, { pattern } );
+                        return;
+                    }
+                    index.add( node, pattern, keyword );
+                    sources.push( { location: node, index: nodeIndex, pattern: pattern, keyword: keyword } );
+                } );
+            } );
+        } );
+
+        index.rebuild();
+        sources.forEach( source => {
+            const sample = source.pattern.replace( /\*|\{[a-zA-Z0-9_]+\}/g, "sample0" );
+            const hit = index.find( sample );
+            if ( hit && ( hit.location === source.location || ( hit.location.locTypeId === source.location.locTypeId && hit.matchExpression === source.pattern ) ) ) {
+                return;     //  Resolves to itself, or to an identical pattern of the same location in another environment or residency
+            }
+            const extra:Partial<AlLocationDiagnostic> = {
+                index: source.index,
+                locTypeId: source.location.locTypeId,
+                environment: source.location.environment,
+                residency: source.location.residency,
+                pattern: source.pattern
+            };
+            if ( hit && hit.keyword !== source.keyword && source.keyword.includes( hit.keyword ) ) {
+                const related = sources.find( candidate => candidate.location === hit.location );
+                diagnostics.push( Object.assign( {
+                    code: "shadowed-keyword",
+                    severity: "warning",
+                    message: `'${source.pattern}' resolves to location '${hit.location.locTypeId}', whose keyword '${hit.keyword}' shadows the keyword '${source.keyword}'`,
+                    relatedIndex: related ? related.index : undefined
+                }, extra ) as AlLocationDiagnostic );
+            } else {
+                diagnostics.push( Object.assign( {
+                    code: "unreachable-alias",
+                    severity: "warning",
+                    message: hit ? `'${source.pattern}' resolves to location '${hit.location.locTypeId}' in environment '${hit.location.environment}' instead of its own descriptor`
+                                 : `'${source.pattern}' cannot be resolved; its keyword '${source.keyword}' does not appear in it`
+                }, extra ) as AlLocationDiagnostic );
+            }
+        } );
+
+        return diagnostics;
+    }
+}
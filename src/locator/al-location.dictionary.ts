@@ -205,8 +205,8 @@ export const AlLocationDictionary: AlLocationDescriptor[] =
         environment: 'integration',
         aliases: [
             `https://hud-ui.ui-dev.product.dev.alertlogic.com`,
+            `https://hud-ui-pr-{prNumber}.ui-dev.product.dev.alertlogic.com`,
             `https://hud-ui-*.ui-dev.product.dev.alertlogic.com`,
-            `https://hud-ui-pr-*.ui-dev.product.dev.alertlogic.com`,
         ],
         keyword: 'hud',
     },
@@ -254,8 +254,8 @@ export const AlLocationDictionary: AlLocationDescriptor[] =
         environment: 'integration',
         aliases: [
             `https://iris-ui.ui-dev.product.dev.alertlogic.com`,
+            `https://iris-ui-pr-{prNumber}.ui-dev.product.dev.alertlogic.com`,
             `https://iris-ui-*.ui-dev.product.dev.alertlogic.com`,
-            `https://iris-ui-pr-*.ui-dev.product.dev.alertlogic.com`,
         ],
         keyword: 'iris',
     },
@@ -0,0 +1,88 @@
+/**
+ *  Adapters that isolate AlLocatorMatrix from the globals of its host platform (the current location, the clock, and the console),
+ *  so that it can be used in browsers, Node, Electron, and test harnesses alike.
+ *
+ *  Author: Kevin Nielsen <knielsen@alertlogic.com>
+ *  Copyright 2019 Alert Logic, Inc.
+ */
+
+/**
+ * @public
+ *
+ * Provides the platform services used by AlLocatorMatrix.
+ */
+export abstract class AlLocatorEnvironmentAdapter
+{
+    /**
+     * Creates the adapter appropriate for the current platform: an AlBrowserEnvironmentAdapter if a window is present, or an AlNodeEnvironmentAdapter otherwise.
+     */
+    public static detect():AlLocatorEnvironmentAdapter {
+        return typeof( window ) !== 'undefined' ? new AlBrowserEnvironmentAdapter() : new AlNodeEnvironmentAdapter();
+    }
+
+    /**
+     * Retrieves the current location (origin and path, without query or fragment), which is used as the default acting URL.
+     */
+    public abstract getLocation():string;
+
+    /**
+     * Retrieves the current time, in milliseconds since the Unix epoch, so that it can be compared with persisted timestamps.
+     */
+    public abstract now():number;
+
+    public abstract log( message:string, ...details:any[] ):void;
+
+    public abstract warn( message:string, ...details:any[] ):void;
+}
+
+/**
+ * @public
+ *
+ * Reads the current location from `window.location`.
+ */
+export class AlBrowserEnvironmentAdapter extends AlLocatorEnvironmentAdapter
+{
+    public getLocation():string {
+        return window.location.origin + ( ( window.location.pathname && window.location.pathname.length > 1 ) ? window.location.pathname : '' );
+    }
+
+    public now():number {
+        return Date.now();
+    }
+
+    public log( message:string, ...details:any[] ) {
+        console.log( message, ...details );
+    }
+
+    public warn( message:string, ...details:any[] ) {
+        console.warn( message, ...details );
+    }
+}
+
+/**
+ * @public
+ *
+ * Uses a fixed location (by default, `http://localhost:9999`) and the system clock.
+ */
+export class AlNodeEnvironmentAdapter extends AlLocatorEnvironmentAdapter
+{
+    constructor( public location:string = "http://localhost:9999" ) {
+        super();
+    }
+
+    public getLocation():string {
+        return this.location;
+    }
+
+    public now():number {
+        return Date.now();
+    }
+
+    public log( message:string, ...details:any[] ) {
+        console.log( message, ...details );
+    }
+
+    public warn( message:string, ...details:any[] ) {
+        console.warn( message, ...details );
+    }
+}
@@ -0,0 +1,71 @@
+/**
+ *  Events published by AlLocatorMatrix when the results of location resolution may have changed.
+ *
+ *  Author: Kevin Nielsen <knielsen@alertlogic.com>
+ *  Copyright 2019 Alert Logic, Inc.
+ */
+
+import { AlTrigger, AlTriggeredEvent } from '../utility/al-trigger.types';
+import { AlLocationContext, AlLocationDescriptor } from './al-locator.types';
+
+/**
+ * @public
+ *
+ * Published when the locator's context (environment, residency, insight location, or accessible locations) changes.
+ */
+export class AlLocatorContextChangedEvent extends AlTriggeredEvent<void>
+{
+    constructor( public previous:AlLocationContext,
+                 public current:AlLocationContext ) {
+        super();
+    }
+}
+AlTrigger( "AlLocatorContextChanged" )( AlLocatorContextChangedEvent );
+
+/**
+ * @public
+ *
+ * Published when the acting URL resolves to a different node (or to no node at all).
+ */
+export class AlLocatorActorChangedEvent extends AlTriggeredEvent<void>
+{
+    constructor( public previousUri:string|undefined,
+                 public previous:AlLocationDescriptor|undefined,
+                 public currentUri:string|undefined,
+                 public current:AlLocationDescriptor|undefined ) {
+        super();
+    }
+}
+AlTrigger( "AlLocatorActorChanged" )( AlLocatorActorChangedEvent );
+
+/**
+ * @public
+ *
+ * Published when the set of registered nodes changes, either because locations were added or because a location was remapped.
+ * `previous` and `current` contain every registered node before and after the change; `locTypeIds` lists the location types affected.
+ */
+export class AlLocatorNodesChangedEvent extends AlTriggeredEvent<void>
+{
+    constructor( public locTypeIds:string[],
+                 public previous:AlLocationDescriptor[],
+                 public current:AlLocationDescriptor[] ) {
+        super();
+    }
+}
+AlTrigger( "AlLocatorNodesChanged" )( AlLocatorNodesChangedEvent );
+
+/**
+ * @public
+ *
+ * Published when `getNode` substitutes an equivalent alternative for a node that has been reported as degraded.  It is published once per failover,
+ * rather than once per lookup; if the degraded node recovers and later degrades again, it will be published again.
+ */
+export class AlLocatorFailoverEvent extends AlTriggeredEvent<void>
+{
+    constructor( public locTypeId:string,
+                 public degraded:AlLocationDescriptor,
+                 public alternative:AlLocationDescriptor ) {
+        super();
+    }
+}
+AlTrigger( "AlLocatorFailover" )( AlLocatorFailoverEvent );
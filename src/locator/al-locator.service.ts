@@ -1,5 +1,6 @@
 import { AlLocatorMatrix } from './al-locator.types';
 import { AlLocationDictionary } from './al-location.dictionary';
+import { AlLocationOverrides } from './al-location-overrides';
 import { AlGlobalizer } from '../utility/al-globalizer';
 
 /**
@@ -9,3 +10,15 @@ import { AlGlobalizer } from '../utility/al-globalizer';
  */
 /* tslint:disable:variable-name - stupid rule anyhow */
 export const AlLocatorService:AlLocatorMatrix = AlGlobalizer.instantiate( 'locator', () => new AlLocatorMatrix( AlLocationDictionary ) );
+
+/**
+ * @public
+ *
+ * Global singleton instance of {@link AlLocationOverrides}, which manages developer overrides for `AlLocatorService`.  Persisted overrides
+ * are reapplied as soon as it is created.
+ */
+export const AlLocationOverrideService:AlLocationOverrides = AlGlobalizer.instantiate( 'locator.overrides', () => {
+    const overrides = new AlLocationOverrides( AlLocatorService );
+    overrides.apply();
+    return overrides;
+} );
@@ -8,6 +8,16 @@
  *  Copyright 2019 Alert Logic, Inc.
  */
 
+import { AlLocationURIIndex, AlLocationURIIndexProbe } from './al-location-uri-index';
+import { AlLocatorContextChangedEvent, AlLocatorActorChangedEvent, AlLocatorNodesChangedEvent, AlLocatorFailoverEvent } from './al-locator.events';
+import { AlInsightLocation, AlInsightLocationRegistry } from './al-insight-location-registry';
+import { AlLocationValidator, AlLocationDiagnostic } from './al-location-validator';
+import { AlLocatorEnvironmentAdapter } from './al-locator-environment';
+import { AlLocationHealthRegistry } from './al-location-health';
+import { AlLocationOverride, AlLocationOverrideLayer } from './al-location-overrides';
+import { AlTriggerStream, AlTriggeredEvent, AlSubscriptionGroup } from '../utility/al-trigger.types';
+import { AlDataValidationError, AlLocationTranslationError } from '../errors';
+
 /**
  * @public
  *
@@ -24,11 +34,21 @@ export interface AlLocationContext {
     accessible?:string[];
 }
 
+/**
+ * @public
+ *
+ * Extracts the union of location identifiers from a class of string constants (e.g., `AlLocationIdOf<typeof MyLocations>` for `class MyLocations extends AlLocation`).
+ */
+export type AlLocationIdOf<Registry> = { [Key in keyof Registry]: Registry[Key] extends string ? Registry[Key] : never }[keyof Registry];
+
 /**
  * @public
  *
  * AlLocationType is an enumeration of different location types, each corresponding to a specific application.
  * Each type is presumed to have a single unique instance inside a given environment and residency.
+ *
+ * The constants are readonly, so their literal values are available to the compiler as the AlLocationId union.  Applications that define
+ * their own locations can extend this class and derive a wider union with AlLocationIdOf.
  */
 /* tslint:disable:variable-name */
 export class AlLocation
@@ -36,41 +56,41 @@ export class AlLocation
     /**
      * API Stacks
      */
-    public static GlobalAPI         = "global:api";
-    public static InsightAPI        = "insight:api";
-    public static EndpointsAPI      = "endpoints:api";
-    public static GestaltAPI        = "gestalt:api";
+    public static readonly GlobalAPI         = "global:api";
+    public static readonly InsightAPI        = "insight:api";
+    public static readonly EndpointsAPI      = "endpoints:api";
+    public static readonly GestaltAPI        = "gestalt:api";
 
     /**
      * Modern UI Nodes
      */
-    public static LegacyUI          = "cd14:ui";
-    public static OverviewUI        = "cd17:overview";
-    public static IntelligenceUI    = "cd17:intelligence";
-    public static ConfigurationUI   = "cd17:config";
-    public static RemediationsUI    = "cd17:remediations";
-    public static IncidentsUI       = "cd17:incidents";
-    public static AccountsUI        = "cd17:accounts";
-    public static LandscapeUI       = "cd17:landscape";
-    public static IntegrationsUI    = "cd17:integrations";
-    public static EndpointsUI       = "cd19:endpoints";
-    public static InsightBI         = "insight:bi";
-    public static HudUI             = "insight:hud";
-    public static IrisUI            = "insight:iris";
-    public static SearchUI          = "cd17:search";
-    public static HealthUI          = "cd17:health";
-    public static DisputesUI        = "cd17:disputes";
-    public static DashboardsUI      = "cd19:dashboards";
-    public static ExposuresUI       = "cd17:exposures";
+    public static readonly LegacyUI          = "cd14:ui";
+    public static readonly OverviewUI        = "cd17:overview";
+    public static readonly IntelligenceUI    = "cd17:intelligence";
+    public static readonly ConfigurationUI   = "cd17:config";
+    public static readonly RemediationsUI    = "cd17:remediations";
+    public static readonly IncidentsUI       = "cd17:incidents";
+    public static readonly AccountsUI        = "cd17:accounts";
+    public static readonly LandscapeUI       = "cd17:landscape";
+    public static readonly IntegrationsUI    = "cd17:integrations";
+    public static readonly EndpointsUI       = "cd19:endpoints";
+    public static readonly InsightBI         = "insight:bi";
+    public static readonly HudUI             = "insight:hud";
+    public static readonly IrisUI            = "insight:iris";
+    public static readonly SearchUI          = "cd17:search";
+    public static readonly HealthUI          = "cd17:health";
+    public static readonly DisputesUI        = "cd17:disputes";
+    public static readonly DashboardsUI      = "cd19:dashboards";
+    public static readonly ExposuresUI       = "cd17:exposures";
 
     /**
      * Miscellaneous/External Resources
      */
-    public static Fino              = "cd14:fino";
-    public static SecurityContent   = "cd14:scc";
-    public static SupportPortal     = "cd14:support";
-    public static Segment           = "segment";
-    public static Auth0             = "auth0";
+    public static readonly Fino              = "cd14:fino";
+    public static readonly SecurityContent   = "cd14:scc";
+    public static readonly SupportPortal     = "cd14:support";
+    public static readonly Segment           = "segment";
+    public static readonly Auth0             = "auth0";
 
     /**
      * Generates location type definitions for residency-specific prod, integration, and dev versions of a UI
@@ -82,42 +102,48 @@ export class AlLocation
                 environment: 'production|beta-nav-prod',
                 residency: 'US',
                 uri: `https://console.${appCode}.alertlogic.com`,
-                keyword: appCode
+                keyword: appCode,
+                hashRouting: true
             },
             {
                 locTypeId: locTypeId,
                 environment: 'production',
                 residency: 'EMEA',
                 uri: `https://console.${appCode}.alertlogic.co.uk`,
-                keyword: appCode
+                keyword: appCode,
+                hashRouting: true
             },
             {
                 locTypeId: locTypeId,
                 environment: 'beta-navigation',
                 residency: 'US',
                 uri: `https://${appCode}-beta-navigation.ui-dev.product.dev.alertlogic.com`,
-                keyword: appCode
+                keyword: appCode,
+                hashRouting: true
             },
             {
                 locTypeId: locTypeId,
                 environment: 'beta-nav-prod',
                 residency: 'US',
                 uri: `https://${appCode}-beta-nav-prod.ui-dev.product.dev.alertlogic.com`,
-                keyword: appCode
+                keyword: appCode,
+                hashRouting: true
             },
             {
                 locTypeId: locTypeId,
                 environment: 'production-staging',
                 residency: 'US',
                 uri: `https://${appCode}-production-staging-us.ui-dev.product.dev.alertlogic.com`,
-                keyword: appCode
+                keyword: appCode,
+                hashRouting: true
             },
             {
                 locTypeId: locTypeId,
                 environment: 'production-staging',
                 residency: 'EMEA',
                 uri: `https://${appCode}-production-staging-uk.ui-dev.product.dev.alertlogic.com`,
-                keyword: appCode
+                keyword: appCode,
+                hashRouting: true
             },
             {
                 locTypeId: locTypeId,
@@ -125,22 +151,31 @@ export class AlLocation
                 uri: `https://console.${appCode}.product.dev.alertlogic.com`,
                 aliases: [
                     `https://${appCode}.ui-dev.product.dev.alertlogic.com`,
+                    `https://${appCode}-pr-{prNumber}.ui-dev.product.dev.alertlogic.com`,
                     `https://${appCode}-*.ui-dev.product.dev.alertlogic.com`,
-                    `https://${appCode}-pr-*.ui-dev.product.dev.alertlogic.com`,
                     `https://*.o3-${appCode}.product.dev.alertlogic.com`
                 ],
-                keyword: appCode
+                keyword: appCode,
+                hashRouting: true
             },
             {
                 locTypeId: locTypeId,
                 environment: 'development',
                 uri: `http://localhost:${devPort}`,
-                keyword: 'localhost'
+                keyword: 'localhost',
+                hashRouting: true
             }
         ];
     }
 }
 
+/**
+ * @public
+ *
+ * The identifiers of the locations defined by AlLocation.
+ */
+export type AlLocationId = AlLocationIdOf<typeof AlLocation>;
+
 /**
  * @public
  *
@@ -154,7 +189,7 @@ export interface AlLocationDescriptor
     uri:string;                     //  URI of the entity
     residency?:string;              //  A data residency domain
     environment?:string;            //  'production, 'integration', 'development'...
-    aliases?:string[];              //  A list of
+    aliases?:string[];              //  A list of alternative URIs or patterns.  `*` matches any single host label fragment; named placeholders like `{prNumber}` do too, and capture their values.
 
     productType?:string;            //  'defender' or 'insight' (others perhaps in the future?)
     aspect?:string;                 //  'ui' or 'api'
@@ -164,14 +199,105 @@ export interface AlLocationDescriptor
     data?:any;                      //  Miscellaneous associated data
     weight?:number;                 //  Relative weight for resolution by URI.  In general, the more significant a node is the lower its weight should be.
     keyword?:string;                //
+    hashRouting?:boolean;           //  Indicates that the application uses hash-based routing (e.g., `/#/some/route`), which affects how structured targets are resolved
+}
+
+/**
+ * @public
+ *
+ * A structured target for `AlLocatorMatrix.resolveURL`.
+ */
+export interface AlLocationTarget
+{
+    path?:string;                   //  The path (or, for applications using hash-based routing, the route) within the target application
+    query?:{[parameter:string]:string|number|boolean|(string|number|boolean)[]|null|undefined};     //  Query parameters; arrays are repeated, and null or undefined values are omitted
+    fragment?:string;               //  The URL fragment; for applications using hash-based routing, this becomes the final segment of the route
+    hashRouting?:boolean;           //  Overrides the target node's `hashRouting` flag
+}
+
+/**
+ * @public
+ *
+ * The result of resolving a literal URI to a location.  The registered descriptor is referenced as-is and never modified; the concrete URI
+ * that was matched (which may differ from the descriptor's canonical `uri` when an alias was matched) is reported separately.
+ */
+export interface AlResolvedLocation
+{
+    node:AlLocationDescriptor;      //  The registered location descriptor that matched
+    uri:string;                     //  The concrete base URI that was matched, minus any query string, fragment, or trailing slash
+    matchExpression:string;         //  The canonical URI or alias pattern that matched
+    captures:string[];              //  The values captured by each wildcard in the matching pattern, in order of appearance
+    parameters:{[parameter:string]:string};    //  The values captured by named placeholders in the matching pattern (e.g., `{prNumber}`), by name
+}
+
+/**
+ * @public
+ *
+ * A single hash key tried while selecting a node for a location type.  Tiers are tried in order: `insightLocationId`, `accessible`, `residency`
+ * (environment and residency), `environment` (environment with any residency), and `default` (any environment and residency).
+ */
+export interface AlLocationCandidateKey
+{
+    tier:"insightLocationId"|"accessible"|"residency"|"environment"|"default";
+    hashKey:string;
+    exists:boolean;                 //  Was a node registered under this key?
+    selected:boolean;               //  Was this the key that determined the result?
+}
+
+/**
+ * @public
+ *
+ * Describes how `AlLocatorMatrix.getNode` resolves a location type in a given context.
+ */
+export interface AlLocationNodeExplanation
+{
+    locTypeId:string;
+    context:AlLocationContext;                  //  The effective context used for the lookup, after normalization and merging of contextual overrides
+    candidates:AlLocationCandidateKey[];        //  The hash keys tried, in order
+    matchedKey?:string;                         //  The hash key of the selected node, if any
+    cached:boolean;                             //  Indicates whether `getNode` would return this result from its lookup cache
+    actingOverride:boolean;                     //  Indicates whether the selected node's URI was replaced with the acting URL or values captured from it
+    override?:AlLocationOverride;               //  The location override that replaced the selected node's URI, if any
+    node:AlLocationDescriptor|null;             //  The resulting node, as `getNode` would return it
+}
+
+/**
+ * @public
+ *
+ * Describes how `AlLocatorMatrix.getNodeByURI` resolves a URI.
+ */
+export interface AlLocationURIExplanation
+{
+    uri:string;
+    probes:AlLocationURIIndexProbe[];           //  The index buckets examined and the patterns tested within each
+    resolved?:AlResolvedLocation;               //  The resolution result, if any pattern matched
 }
 
 /**
  * @public
  *
- * A dictionary of insight locations (as reported by AIMS and the locations service).
+ * A plain JSON representation of an AlLocatorMatrix's state, produced by `toSnapshot` and consumed by `AlLocatorMatrix.fromSnapshot`.
+ * Nodes are referenced by their index in `nodes`, so that remapped nodes and overridden dictionary entries are reproduced exactly.
  */
-export const AlInsightLocations: {[locationId:string]: ({residency: string; residencyCaption: string, alternatives?: string[]; logicalRegion: string});} =
+export interface AlLocatorSnapshot
+{
+    version:number;
+    nodes:AlLocationDescriptor[];                                           //  Every registered node, one per environment, including any remaps
+    dictionary:{[hashKey:string]:number};                                   //  Lookup keys and the nodes they refer to
+    patterns:{node:number, matchExpression:string, keyword:string}[];       //  URI patterns, in order of precedence
+    context:AlLocationContext;
+    actingUri?:string;
+    actingNodeUri?:string;                                                  //  The acting node's concrete URI, if the acting URL matched a node
+    insightLocations:{[locationId:string]:AlInsightLocation};
+    overrides?:AlLocationOverride[];                                        //  Location overrides in effect
+}
+
+/**
+ * @public
+ *
+ * A dictionary of insight locations (as reported by AIMS and the locations service).  These are the defaults for each locator's `insightLocations` registry.
+ */
+export const AlInsightLocations: {[locationId:string]:AlInsightLocation} =
 {
     "defender-us-denver": {
         residency: "US",
@@ -202,28 +328,37 @@ export const AlInsightLocations: {[locationId:string]: ({residency: string; resi
     }
 };
 
-type UriMappingItem =
-{
-    location:AlLocationDescriptor,
-    matcher?:RegExp,
-    matchExpression:string
-};
-
 /**
  * @public
  *
  * This class accepts a list of location descriptors, an acting URL, and an optional context specification, and provides the ability
  * to calculate environment- and residency- specific target URLs.
+ *
+ * Changes to the context, the acting node, or the set of registered nodes are published on `events` as AlLocatorContextChangedEvent,
+ * AlLocatorActorChangedEvent, and AlLocatorNodesChangedEvent, respectively.
+ *
+ * The optional type parameter restricts the location identifiers accepted by `getNode`, `resolveURL`, and related methods -- e.g., an
+ * `AlLocatorMatrix<AlLocationId>` rejects typos at compile time.  It defaults to `string`.
+ *
+ * Nodes reported as degraded to `health` are skipped by `getNode` in favor of an equivalent alternative (a node of the same location type, environment,
+ * and residency) if one is healthy; each failover is published as an AlLocatorFailoverEvent.
+ *
+ * Location overrides added to `overrides` take precedence over the registered nodes when `getNode` and `resolveURL` select a node.
  */
-export class AlLocatorMatrix
+export class AlLocatorMatrix<LocationId extends string = string>
 {
-    public static totalTime = 0;
-    public static totalSeeks = 0;
+    public static snapshotVersion = 1;
+
+    public events:AlTriggerStream = new AlTriggerStream();
+    public insightLocations:AlInsightLocationRegistry = new AlInsightLocationRegistry( AlInsightLocations );
+    public health:AlLocationHealthRegistry = new AlLocationHealthRegistry( this.adapter );
+    public overrides:AlLocationOverrideLayer = new AlLocationOverrideLayer( this.adapter );
 
     private actingUri:string|undefined;
+    private acting:AlResolvedLocation|undefined;
     private actor:AlLocationDescriptor|undefined;
 
-    private uriMap:{[pattern:string]:UriMappingItem[]} = {};
+    private uriIndex:AlLocationURIIndex = new AlLocationURIIndex();
     private nodeCache:{[locTypeId:string]:AlLocationDescriptor} = {};
     private nodeDictionary:{[hashKey:string]:AlLocationDescriptor} = {};
 
@@ -234,8 +369,23 @@ export class AlLocatorMatrix
         accessible:         undefined
     };
 
+    private parent:AlLocatorMatrix<LocationId>|undefined;
+    private contextOverrides:AlLocationContext = {};
+    private subscriptions:AlSubscriptionGroup = new AlSubscriptionGroup();
+    private healthVersion:number = 0;
+    private overridesVersion:number = 0;
+    private failovers:{[uri:string]:string} = {};
 
-    constructor( nodes:AlLocationDescriptor[] = [], actingUri:string|boolean = true, context?:AlLocationContext ) {
+    /**
+     * @param nodes - A list of service node descriptors.
+     * @param actingUri - The acting URL, or `true` to use the current location reported by the environment adapter.
+     * @param context - The initial context.
+     * @param adapter - Provides the current location, clock, and logger.  Defaults to the adapter appropriate for the current platform.
+     */
+    constructor( nodes:AlLocationDescriptor[] = [],
+                 actingUri:string|boolean = true,
+                 context?:AlLocationContext,
+                 public adapter:AlLocatorEnvironmentAdapter = AlLocatorEnvironmentAdapter.detect() ) {
         if ( context ) {
             this.setContext( context );
         }
@@ -247,10 +397,41 @@ export class AlLocatorMatrix
         }
     }
 
+    /**
+     *  Creates a locator from a snapshot produced by `toSnapshot`.  The acting URI is taken from the snapshot rather than from the current location.
+     *
+     *  @throws AlDataValidationError if the snapshot's version is not supported.
+     */
+    public static fromSnapshot<LocationId extends string = string>( snapshot:AlLocatorSnapshot|string, adapter?:AlLocatorEnvironmentAdapter ):AlLocatorMatrix<LocationId> {
+        const data:AlLocatorSnapshot = typeof( snapshot ) === 'string' ? JSON.parse( snapshot ) : JSON.parse( JSON.stringify( snapshot ) );
+        if ( ! data || data.version !== AlLocatorMatrix.snapshotVersion ) {
+            throw new AlDataValidationError( `Unsupported locator snapshot version`, [ data ? data.version : undefined ] );
+        }
+        const locator = new AlLocatorMatrix<LocationId>( [], false, undefined, adapter );
+        data.patterns.forEach( pattern => locator.uriIndex.add( data.nodes[pattern.node], pattern.matchExpression, pattern.keyword ) );
+        locator.uriIndex.rebuild();
+        Object.keys( data.dictionary ).forEach( hashKey => locator.nodeDictionary[hashKey] = data.nodes[data.dictionary[hashKey]] );
+        locator.insightLocations.register( data.insightLocations );
+        ( data.overrides || [] ).forEach( override => locator.overrides.set( override ) );
+        locator.context = data.context;
+        if ( data.actingUri ) {
+            locator.actingUri = data.actingUri;
+            locator.acting = locator.resolveNodeByURI( data.actingUri );
+            if ( locator.acting ) {
+                locator.acting.uri = data.actingNodeUri || locator.acting.uri;
+                locator.actor = locator.acting.uri === locator.acting.node.uri ? locator.acting.node : Object.assign( {}, locator.acting.node, { uri: locator.acting.uri } );
+            }
+        }
+        return locator;
+    }
+
     /**
      * Resets locator state to its "factory presets"
      */
     public reset() {
+        const previousContext = this.copyContext();
+        const previousUri = this.actingUri;
+        const previousActor = this.actor;
         this.nodeCache = {};
         this.context = {
             environment:        "production",
@@ -259,6 +440,12 @@ export class AlLocatorMatrix
             accessible:         undefined
         };
         this.actingUri = undefined;
+        this.acting = undefined;
+        this.actor = undefined;
+        if ( previousActor || previousUri ) {
+            this.events.trigger( new AlLocatorActorChangedEvent( previousUri, previousActor, undefined, undefined ) );
+        }
+        this.notifyContextChange( previousContext );
     }
 
     /**
@@ -270,11 +457,14 @@ export class AlLocatorMatrix
 
     /**
      * Arguably the only important general-purpose functionality of this service.
-     * Calculates a URL from a location identifier, an optional path fragment, and an optional context.
+     * Calculates a URL from a location identifier, an optional path fragment or structured target, and an optional context.
+     *
+     * A string path is appended to the node's URI verbatim.  A structured target's path is joined to the URI with a single slash, its query parameters
+     * are encoded, and -- if the target uses hash-based routing -- the path and query are placed after `#`, e.g. `https://console.search.alertlogic.com/#/search?q=1`.
      *
      * @returns The resulting URL.
      */
-    public resolveURL( locTypeId:string, path?:string, context?:AlLocationContext ) {
+    public resolveURL( locTypeId:LocationId, path?:string|AlLocationTarget, context?:AlLocationContext ) {
         const loc = this.getNode( locTypeId, context );
         let url:string;
         if ( loc ) {
@@ -285,65 +475,66 @@ export class AlLocatorMatrix
                 url = `https://${url}`;
             }
         } else {
-            /* istanbul ignore else */
-            if ( typeof( window ) !== 'undefined' ) {
-                url = window.location.origin + ( ( window.location.pathname && window.location.pathname.length > 1 ) ? window.location.pathname : '' );
-            } else {
-                url = "http://localhost:9999";
-            }
+            url = this.adapter.getLocation();
         }
-        if ( path ) {
+        if ( typeof( path ) === 'object' ) {
+            url = this.applyTarget( url, path, typeof( path.hashRouting ) === 'boolean' ? path.hashRouting : !! ( loc && loc.hashRouting ) );
+        } else if ( path ) {
             url += path;        //  wow, that `const` keyword is so useful!  except not.
         }
         return url;
     }
 
     /**
-     *  Resolves a literal URI to a service node.
+     *  Resolves a literal URI to a service node.  The registered descriptor is returned unmodified; use `resolveNodeByURI` to retrieve
+     *  the concrete URI and wildcard values that were matched.
      */
     public getNodeByURI( targetURI:string ):AlLocationDescriptor|undefined {
-        let start = this.timestamp(0);
-        let result:AlLocationDescriptor|undefined = undefined;
-        Object.entries( this.uriMap ).find( ( [ keyword, candidates ] ) => {
-            if ( targetURI.includes( keyword ) ) {
-                let hit = candidates.find( candidate => {
-                    if ( targetURI.startsWith( candidate.matchExpression ) ) {
-                        return true;        //  exact match
-                    }
-                    if ( ! candidate.matcher ) {
-                        candidate.matcher = new RegExp( this.escapeLocationPattern( candidate.matchExpression ) );
-                    }
-                    if ( candidate.matcher.test( targetURI ) ) {
-                        return true;        //  matched by regular expression
-                    }
-                    return false;
-                } );
-                if ( hit ) {
-                    result = hit.location;
-                    const baseUrl = this.getBaseUrl( targetURI );
-                    if ( baseUrl !== result.uri ) {
-                        result.uri = baseUrl;
-                    }
-                    return true;
-                }
-            }
-            return false;
-        } );
-
-        let duration = this.timestamp( 1000 ) - start;
-        AlLocatorMatrix.totalTime += duration;
-        AlLocatorMatrix.totalSeeks++;
+        const resolved = this.resolveNodeByURI( targetURI );
+        return resolved ? resolved.node : undefined;
+    }
 
-        return result;
+    /**
+     *  Resolves a literal URI to a service node, along with the concrete base URI and any wildcard values captured by the matching pattern.
+     */
+    public resolveNodeByURI( targetURI:string ):AlResolvedLocation|undefined {
+        const hit = this.uriIndex.find( targetURI );
+        if ( ! hit ) {
+            return undefined;
+        }
+        const match = hit.matcher ? hit.matcher.exec( targetURI ) : null;
+        const captures = match ? match.slice( 1 ) : [];
+        const parameters:{[parameter:string]:string} = {};
+        if ( match && hit.parameters ) {
+            hit.parameters.forEach( ( name, index ) => {
+                if ( name ) {
+                    parameters[name] = captures[index];
+                }
+            } );
+        }
+        return {
+            node: hit.location,
+            uri: this.getBaseUrl( targetURI ),
+            matchExpression: hit.matchExpression,
+            captures: captures,
+            parameters: parameters
+        };
     }
 
     /**
-     *  Gets the currently acting node.
+     *  Gets the currently acting node.  If the acting URL matched an alias, the node's `uri` will reflect the alias rather than the canonical URI.
      */
     public getActingNode():AlLocationDescriptor|undefined {
         return this.actor;
     }
 
+    /**
+     *  Gets the resolution details for the currently acting URL, if it corresponds to a known node.
+     */
+    public getActingLocation():AlResolvedLocation|undefined {
+        return this.acting;
+    }
+
     /**
      *  @deprecated
      *
@@ -351,7 +542,7 @@ export class AlLocatorMatrix
      */
     /* tslint:disable:no-unused-variable */
     public resolveNodeURI( node:AlLocationDescriptor ):string {
-        console.warn("Deprecation warning: please do not use resolveNodeURI directly; just use the location's 'uri' property." );
+        this.adapter.warn("Deprecation warning: please do not use resolveNodeURI directly; just use the location's 'uri' property." );
         return node.uri;
     }
 
@@ -359,8 +550,23 @@ export class AlLocatorMatrix
      *  Updates the locator matrix model with a set of service node descriptors.
      *
      *  @param nodes - A list of service node descriptors.
+     *  @param strict - If true, the descriptors are checked with `validateLocations` first, and rejected if any errors are found.
+     *
+     *  @throws AlDataValidationError in strict mode, if the descriptors are not valid.  Its `errors` are the AlLocationDiagnostics with severity 'error'.
      */
-    public setLocations( nodes:AlLocationDescriptor[] ) {
+    public setLocations( nodes:AlLocationDescriptor[], strict:boolean = false ):void {
+        if ( this.parent ) {
+            this.parent.setLocations( nodes, strict );      //  forked locators share their parent's nodes
+            return;
+        }
+        if ( strict ) {
+            const errors = this.validateLocations( nodes ).filter( diagnostic => diagnostic.severity === 'error' );
+            if ( errors.length > 0 ) {
+                throw new AlDataValidationError( `The location descriptors are not valid`, errors );
+            }
+        }
+        const previous = this.getRegisteredNodes();
+        this.nodeCache = {};    //  flush lookup cache
         nodes.forEach( baseNode => {
             const environments:string[] = typeof( baseNode.environment ) !== 'undefined' ? baseNode.environment.split("|") : [ 'production' ];
             environments.forEach( environment => {
@@ -376,32 +582,36 @@ export class AlLocatorMatrix
                 }
 
                 const keyword = node.keyword || node.uri;
-                if ( ! this.uriMap.hasOwnProperty( keyword ) ) {
-                    this.uriMap[keyword] = [];
-                }
-
-                this.uriMap[keyword].push( {
-                    location: node,
-                    matchExpression: node.uri
-                } );
-
+                this.uriIndex.add( node, node.uri, keyword );
                 if ( node.aliases ) {
-                    node.aliases.forEach( alias => {
-                        this.uriMap[keyword].push( {
-                            location: node,
-                            matchExpression: alias
-                        } );
-                    } );
+                    node.aliases.forEach( alias => this.uriIndex.add( node, alias, keyword ) );
                 }
             } );
         } );
 
-        Object.values( this.uriMap ).forEach( candidates => {
-            candidates.sort( ( a, b ) => ( a.location.weight || 0 ) - ( b.location.weight || 0 ) );
-        } );
+        this.uriIndex.rebuild();
+        this.events.trigger( new AlLocatorNodesChangedEvent( nodes.map( node => node.locTypeId ).filter( ( locTypeId, index, list ) => list.indexOf( locTypeId ) === index ),
+                                                             previous,
+                                                             this.getRegisteredNodes() ) );
     }
 
-    public remapLocationToURI( locTypeId:string, uri:string, environment?:string, residency?:string ) {
+    /**
+     *  Checks a list of service node descriptors for collisions, unreachable or shadowed URIs and aliases, dangling entry points, and malformed URIs.
+     *  Entry points may refer to locations that are already registered with this locator.
+     *
+     *  @returns A list of diagnostics, which is empty if no problems were found.
+     */
+    public validateLocations( nodes:AlLocationDescriptor[] ):AlLocationDiagnostic[] {
+        return AlLocationValidator.validate( nodes, this.getRegisteredNodes().map( node => node.locTypeId ) );
+    }
+
+    public remapLocationToURI( locTypeId:LocationId, uri:string, environment?:string, residency?:string ):void {
+        if ( this.parent ) {
+            this.parent.remapLocationToURI( locTypeId, uri, environment, residency );
+            return;
+        }
+        const previous = this.getRegisteredNodes().map( node => Object.assign( {}, node ) );
+        const previousActor = this.actor;
         this.nodeCache = {};    //  flush lookup cache
         const remap = ( node:AlLocationDescriptor ) => {
             node.uri = uri;
@@ -415,30 +625,35 @@ export class AlLocatorMatrix
                 }
             }
         }
-        Object.values( this.uriMap ).forEach( candidates => {
-            candidates.forEach( match => {
-                if ( match.location.locTypeId === locTypeId ) {
-                    remap( match.location );
-                }
-            } );
+        this.uriIndex.getEntries().forEach( entry => {
+            if ( entry.location.locTypeId === locTypeId ) {
+                remap( entry.location );
+            }
         } );
+        if ( this.acting && this.acting.node.locTypeId === locTypeId ) {
+            this.acting.uri = uri;
+            this.actor = this.acting.node;
+        }
+        this.events.trigger( new AlLocatorNodesChangedEvent( [ locTypeId ], previous, this.getRegisteredNodes() ) );
+        if ( this.actor !== previousActor ) {
+            this.events.trigger( new AlLocatorActorChangedEvent( this.actingUri, previousActor, this.actingUri, this.actor ) );
+        }
         this.setActingUrl( true );
     }
 
     public setActingUrl( actingUri:string|boolean|undefined ) {
         if ( actingUri === undefined ) {
+            if ( this.actingUri !== undefined || this.actor ) {
+                this.events.trigger( new AlLocatorActorChangedEvent( this.actingUri, this.actor, undefined, undefined ) );
+            }
             this.actingUri = undefined;
+            this.acting = undefined;
             this.actor = undefined;
             return;
         }
 
         if ( typeof( actingUri ) === 'boolean' ) {
-            /* istanbul ignore else */
-            if ( typeof( window ) !== 'undefined' ) {
-                actingUri = window.location.origin + ( ( window.location.pathname && window.location.pathname.length > 1 ) ? window.location.pathname : '' );
-            } else {
-                actingUri = "http://localhost:9999";
-            }
+            actingUri = this.adapter.getLocation();
         }
         /**
          *  This particular piece of black magic is responsible for identifying the active node by its URI
@@ -446,8 +661,15 @@ export class AlLocatorMatrix
          *  opaque for a reason :)
          */
         if ( actingUri !== this.actingUri ) {
+            const previousUri = this.actingUri;
+            const previousActor = this.actor;
             this.actingUri = actingUri;
-            this.actor = this.getNodeByURI( actingUri );
+            this.acting = this.resolveNodeByURI( actingUri );
+            this.actor = undefined;
+            if ( this.acting ) {
+                //  The acting node takes over the base URI of its location within its environment, without altering the registered descriptor.
+                this.actor = this.acting.uri === this.acting.node.uri ? this.acting.node : Object.assign( {}, this.acting.node, { uri: this.acting.uri } );
+            }
             if ( this.actor ) {
                 this.setContext( {
                     environment: this.actor.environment || this.context.environment,
@@ -461,6 +683,7 @@ export class AlLocatorMatrix
                     accessible:         undefined
                 } );
             }
+            this.events.trigger( new AlLocatorActorChangedEvent( previousUri, previousActor, this.actingUri, this.actor ) );
         }
     }
 
@@ -481,26 +704,82 @@ export class AlLocatorMatrix
      *  This acts as a merge against existing context, so the caller can provide only fragmentary information without borking things.
      */
     public setContext( context?:AlLocationContext ) {
-        this.nodeCache = {};    //  flush lookup cache
-        this.context.insightLocationId = context && context.insightLocationId ? context.insightLocationId : this.context.insightLocationId;
-        this.context.accessible = context && context.accessible && context.accessible.length ? context.accessible : this.context.accessible;
-        /* istanbul ignore next */
-        if ( this.context.insightLocationId ) {
-            let locationNode = this.findOne( n => { return n.insightLocationId === this.context.insightLocationId; } );
-            if ( locationNode && locationNode.residency ) {
-                this.context.residency = locationNode.residency;
-            }
-            //  This block defaults to setting contextual residency to match the bound location.
+        const previous = this.copyContext();
+        if ( this.parent && context ) {
+            this.contextOverrides = this.mergeContextOverrides( this.contextOverrides, context );
         }
-        this.context.environment = context && context.environment ? context.environment : this.context.environment;
-        this.context.residency = context && context.residency ? context.residency : this.context.residency;
-        this.normalizeContext();
+        this.applyContext( context );
+        this.notifyContextChange( previous );
     }
 
     public getContext():AlLocationContext {
         return this.context;
     }
 
+    /**
+     *  Creates a lightweight child locator that shares this locator's nodes and acting URL, but overrides part of its context and maintains
+     *  its own lookup cache.  This allows links for a different residency or environment to be resolved without passing a context to every call.
+     *
+     *  Context properties that are not overridden track the parent's context as it changes.  If a residency is overridden without an insight
+     *  location ID, the parent's insight location is not inherited, since it would otherwise pin the child to the parent's residency.
+     *  Calls to `setLocations` or `remapLocationToURI` on a child are applied to its parent.  Call `dispose` when a child is no longer needed.
+     */
+    public fork( contextOverrides:AlLocationContext = {} ):AlLocatorMatrix<LocationId> {
+        const child = new AlLocatorMatrix<LocationId>( [], false, undefined, this.adapter );
+        child.parent = this;
+        child.nodeDictionary = this.nodeDictionary;
+        child.insightLocations = this.insightLocations;
+        child.health = this.health;
+        child.overrides = this.overrides;
+        child.uriIndex = this.uriIndex;
+        child.contextOverrides = this.mergeContextOverrides( {}, contextOverrides );
+        child.inheritActor();
+        child.inheritContext();
+        child.subscriptions.manage( this.events.attach( AlLocatorContextChangedEvent, () => child.inheritContext() ) );
+        child.subscriptions.manage( this.events.attach( AlLocatorActorChangedEvent, ( event:AlTriggeredEvent<void> ) => {
+            if ( event instanceof AlLocatorActorChangedEvent ) {
+                child.inheritActor();
+                child.events.trigger( new AlLocatorActorChangedEvent( event.previousUri, event.previous, event.currentUri, event.current ) );
+            }
+        } ) );
+        child.subscriptions.manage( this.events.attach( AlLocatorNodesChangedEvent, ( event:AlTriggeredEvent<void> ) => {
+            if ( event instanceof AlLocatorNodesChangedEvent ) {
+                child.nodeCache = {};
+                child.events.trigger( new AlLocatorNodesChangedEvent( event.locTypeIds, event.previous, event.current ) );
+            }
+        } ) );
+        return child;
+    }
+
+    /**
+     *  Detaches a forked locator from its parent's events.
+     */
+    public dispose() {
+        this.subscriptions.cancelAll();
+    }
+
+    /**
+     *  Exports the locator's nodes, context, acting URI, and insight locations as plain JSON, so that a web worker or server-side renderer can
+     *  reproduce this locator's resolution exactly with `AlLocatorMatrix.fromSnapshot`.  Insight location fallback rules and the decision hook
+     *  are functions and are not included; the exported context already reflects their decisions.
+     */
+    public toSnapshot():AlLocatorSnapshot {
+        const nodes = this.getRegisteredNodes();
+        const dictionary:{[hashKey:string]:number} = {};
+        Object.keys( this.nodeDictionary ).forEach( hashKey => dictionary[hashKey] = nodes.indexOf( this.nodeDictionary[hashKey] ) );
+        return JSON.parse( JSON.stringify( {
+            dictionary,
+            version: AlLocatorMatrix.snapshotVersion,
+            nodes: nodes,
+            patterns: this.uriIndex.getEntries().map( entry => ( { node: nodes.indexOf( entry.location ), matchExpression: entry.matchExpression, keyword: entry.keyword } ) ),
+            context: this.context,
+            actingUri: this.actingUri,
+            actingNodeUri: this.acting ? this.acting.uri : undefined,
+            insightLocations: this.insightLocations.all(),
+            overrides: this.overrides.list()
+        } ) );
+    }
+
     /**
      *  Gets a service node by ID, optionally using a context to refine its selection logic.  The context defaults
      *  to the locator matrix instance's current context; if the default is used, the result of the lookup will be stored
@@ -511,46 +790,226 @@ export class AlLocatorMatrix
      *
      *  @returns A node descriptor (or null, if no node matches).
      */
-    public getNode( locTypeId:string, context?:AlLocationContext ):AlLocationDescriptor|null {
+    public getNode( locTypeId:LocationId, context?:AlLocationContext ):AlLocationDescriptor|null {
+        if ( this.healthVersion !== this.health.version || this.overridesVersion !== this.overrides.version ) {
+            this.nodeCache = {};    //  flush lookup cache
+            this.healthVersion = this.health.version;
+            this.overridesVersion = this.overrides.version;
+        }
         if ( this.nodeCache.hasOwnProperty( locTypeId ) && !context ) {
             return this.nodeCache[locTypeId];
         }
-        let environment = context && context.environment ? context.environment : this.context.environment;
-        let residency = context && context.residency ? context.residency : this.context.residency;
-        let insightLocationId = context && context.insightLocationId ? context.insightLocationId : this.context.insightLocationId;
-        let accessible = context && context.accessible ? context.accessible : this.context.accessible;
-        let node = null;
+        const node = this.lookupNode( locTypeId, this.getEffectiveContext( context ) );
+        if ( node && ! context && this.health.isEmpty() && this.overrides.isEmpty() ) {     //  results are not cached while nodes are degraded or overridden, since both expire
+            //  Save it in a dictionary for faster lookup next time
+            this.nodeCache[locTypeId] = node;
+        }
 
-        if ( insightLocationId ) {
-            if ( this.nodeDictionary.hasOwnProperty( `${locTypeId}-${environment}-${residency}-${insightLocationId}` ) ) {
-                node = this.nodeDictionary[`${locTypeId}-${environment}-${residency}-${insightLocationId}`];
+        return node;
+    }
+
+    /**
+     *  Describes how `getNode` selects a node for a given location type and optional context: the effective context, the hash keys that were tried (in order),
+     *  which of them matched, and whether the result would be served from the lookup cache.  This has no side effects, and is intended for diagnostic use.
+     */
+    public explainNode( locTypeId:LocationId, context?:AlLocationContext ):AlLocationNodeExplanation {
+        const effectiveContext = this.getEffectiveContext( context );
+        const candidates:AlLocationCandidateKey[] = [];
+        const cached = ! context && this.nodeCache.hasOwnProperty( locTypeId );
+        const node = cached ? this.nodeCache[locTypeId] : this.lookupNode( locTypeId, effectiveContext, candidates, false );
+        if ( cached ) {
+            this.lookupNode( locTypeId, effectiveContext, candidates, false );
+        }
+        const selected = candidates.find( candidate => candidate.selected );
+        const override = this.overrides.find( locTypeId, effectiveContext.environment, effectiveContext.residency );
+        return {
+            locTypeId,
+            cached,
+            node,
+            override,
+            context: effectiveContext,
+            candidates: candidates,
+            matchedKey: selected ? selected.hashKey : undefined,
+            actingOverride: ! override && !! node && !! selected && node !== this.nodeDictionary[selected.hashKey]
+        };
+    }
+
+    /**
+     *  Converts a URL belonging to one deployment into the equivalent URL in another environment and/or residency -- for example, an integration
+     *  incident link into its production EMEA counterpart.  The source node is identified with `resolveNodeByURI`; the path, query, and fragment
+     *  of the URL are preserved; and the host is replaced with the canonical URI of the same location type under the target context.
+     *
+     *  @param url - The URL to translate.
+     *  @param targetContext - The context to translate into.  Unspecified properties default to the locator's current context.
+     *
+     *  @throws AlLocationTranslationError if the URL does not belong to a known location, or if the location has no node in the target context.
+     */
+    public translateURL( url:string, targetContext:AlLocationContext ):string {
+        const resolved = this.resolveNodeByURI( url );
+        if ( ! resolved ) {
+            throw new AlLocationTranslationError( `The URL '${url}' does not belong to a known location`, url, "unrecognized" );
+        }
+        const context = this.getEffectiveContext( targetContext );
+        const target = this.lookupCanonicalNode( resolved.node.locTypeId, context );
+        if ( ! target
+                || target.environment !== context.environment
+                || ( target.residency && context.residency && target.residency !== context.residency ) ) {
+            throw new AlLocationTranslationError( `Location '${resolved.node.locTypeId}' has no node in environment '${context.environment}' and residency '${context.residency}'`,
+                                                  url,
+                                                  "no-equivalent",
+                                                  resolved.node.locTypeId,
+                                                  context );
+        }
+        const origin = url.match( /^([a-zA-Z][a-zA-Z0-9+.\-]*:\/\/)?[^\/?#]*/ ) as RegExpMatchArray;
+        let targetURI = target.uri.startsWith( "http" ) ? target.uri : `https://${target.uri}`;
+        if ( targetURI.endsWith( "/" ) ) {
+            targetURI = targetURI.substring( 0, targetURI.length - 1 );
+        }
+        return targetURI + url.substring( origin[0].length );
+    }
+
+    /**
+     *  Describes how `getNodeByURI` resolves a given URI: the index buckets that were examined, the patterns tested within them, and the resulting match.
+     */
+    public explainURI( uri:string ):AlLocationURIExplanation {
+        const probes:AlLocationURIIndexProbe[] = [];
+        this.uriIndex.find( uri, probes );
+        return {
+            uri,
+            probes,
+            resolved: this.resolveNodeByURI( uri )
+        };
+    }
+
+    /**
+     * Merges a partial context with the locator's current context.
+     */
+    protected getEffectiveContext( context?:AlLocationContext ):AlLocationContext {
+        return {
+            environment: context && context.environment ? context.environment : this.context.environment,
+            residency: context && context.residency ? context.residency : this.context.residency,
+            insightLocationId: context && context.insightLocationId ? context.insightLocationId : this.context.insightLocationId,
+            accessible: context && context.accessible ? context.accessible : this.context.accessible
+        };
+    }
+
+    /**
+     * Selects a node for a location type by trying progressively less specific hash keys, optionally recording each key that was tried.
+     *
+     * @param trackFailover - If false, failovers to healthy alternatives are applied without being recorded or published.
+     */
+    protected lookupNode( locTypeId:string, context:AlLocationContext, candidates?:AlLocationCandidateKey[], trackFailover:boolean = true ):AlLocationDescriptor|null {
+        let node = this.lookupCanonicalNode( locTypeId, context, candidates );
+        const override = this.overrides.find( locTypeId, context.environment, context.residency );
+        if ( override ) {
+            //  Overrides supercede failover and the acting URL
+            return node
+                ? Object.assign( {}, node, { uri: override.uri, aliases: undefined, keyword: undefined } )
+                : { locTypeId, uri: override.uri, environment: override.environment || context.environment, residency: override.residency || context.residency };
+        }
+        if ( node ) {
+            node = trackFailover ? this.applyFailover( node ) : ( this.findFailover( node ) || node );
+        }
+        if ( node && this.acting ) {
+            if ( node === this.acting.node ) {
+                //  The acting node's concrete URI supercedes the canonical one
+                node = this.actor || node;
+            } else {
+                node = this.applyActingParameters( node, this.acting );
             }
         }
+        return node;
+    }
+
+    /**
+     * Retrieves the registered node that best matches a given context, without regard to the acting URL.
+     */
+    protected lookupCanonicalNode( locTypeId:string, context:AlLocationContext, candidates?:AlLocationCandidateKey[] ):AlLocationDescriptor|null {
+        const { environment, residency, insightLocationId, accessible } = context;
+        const tried:AlLocationCandidateKey[] = candidates || [];
+        const attempt = ( tier:AlLocationCandidateKey["tier"], hashKey:string ) => {
+            tried.push( { tier, hashKey, exists: this.nodeDictionary.hasOwnProperty( hashKey ), selected: false } );
+        };
+        const found = () => tried.some( candidate => candidate.exists );
 
-        if ( ! node && accessible && accessible.length ) {
-            for ( let i = 0; i < accessible.length; i++ ) {
-                let accessibleLocationId = accessible[i];
+        if ( insightLocationId ) {
+            attempt( "insightLocationId", `${locTypeId}-${environment}-${residency}-${insightLocationId}` );
+        }
+        if ( ! found() && accessible && accessible.length ) {
+            accessible.forEach( accessibleLocationId => {
                 if ( accessibleLocationId !== insightLocationId ) {
-                    if ( this.nodeDictionary.hasOwnProperty( `${locTypeId}-${environment}-${residency}-${accessibleLocationId}` ) ) {
-                        node = this.nodeDictionary[`${locTypeId}-${environment}-${residency}-${accessibleLocationId}`];
-                    }
+                    attempt( "accessible", `${locTypeId}-${environment}-${residency}-${accessibleLocationId}` );
                 }
-            }
+            } );
         }
-        if ( ! node && environment && residency && this.nodeDictionary.hasOwnProperty( `${locTypeId}-${environment}-${residency}`) ) {
-            node = this.nodeDictionary[`${locTypeId}-${environment}-${residency}`];
+        if ( ! found() && environment && residency ) {
+            attempt( "residency", `${locTypeId}-${environment}-${residency}` );
         }
-        if ( ! node && environment && this.nodeDictionary.hasOwnProperty( `${locTypeId}-${environment}-*`) ) {
-            node = this.nodeDictionary[`${locTypeId}-${environment}-*`];
+        if ( ! found() && environment ) {
+            attempt( "environment", `${locTypeId}-${environment}-*` );
         }
-        if ( ! node && this.nodeDictionary.hasOwnProperty( `${locTypeId}-*-*`) ) {
-            node = this.nodeDictionary[`${locTypeId}-*-*`];
+        if ( ! found() ) {
+            attempt( "default", `${locTypeId}-*-*` );
         }
-        if ( node && ! context ) {
-            //  Save it in a dictionary for faster lookup next time
-            this.nodeCache[locTypeId] = node;
+
+        //  The last existing key wins -- which, among accessible locations, means the *last* one with a matching node
+        const selected = tried.filter( candidate => candidate.exists ).pop();
+        if ( ! selected ) {
+            return null;
         }
+        selected.selected = true;
+        return this.nodeDictionary[selected.hashKey];
+    }
 
+    /**
+     * Substitutes a healthy equivalent (the first node with the same location type, environment, and residency) for a degraded node.
+     * If there is no healthy equivalent, the degraded node is used anyway.
+     */
+    protected applyFailover( node:AlLocationDescriptor ):AlLocationDescriptor {
+        const alternative = this.findFailover( node );
+        if ( ! alternative ) {
+            delete this.failovers[node.uri];
+            return node;
+        }
+        if ( this.failovers[node.uri] !== alternative.uri ) {
+            this.failovers[node.uri] = alternative.uri;
+            this.events.trigger( new AlLocatorFailoverEvent( node.locTypeId, node, alternative ) );
+        }
+        return alternative;
+    }
+
+    /**
+     * Finds a healthy equivalent for a degraded node, or returns undefined if the node is healthy or has no healthy equivalent.
+     */
+    protected findFailover( node:AlLocationDescriptor ):AlLocationDescriptor|undefined {
+        if ( ! this.health.isDegraded( node ) ) {
+            return undefined;
+        }
+        return this.findOne( candidate => candidate.locTypeId === node.locTypeId
+                                            && candidate.environment === node.environment
+                                            && candidate.residency === node.residency
+                                            && candidate.uri !== node.uri
+                                            && ! this.health.isDegraded( candidate ) );
+    }
+
+    /**
+     * If the acting URL matched a templated alias (e.g., `https://incidents-pr-{prNumber}.ui-dev.product.dev.alertlogic.com`), sibling nodes in the same
+     * environment with an alias using the same placeholders resolve to that alias instead of their canonical URI.  This allows a PR preview of one application
+     * to link to the corresponding PR preview of another.
+     */
+    protected applyActingParameters( node:AlLocationDescriptor, acting:AlResolvedLocation ):AlLocationDescriptor {
+        if ( ! node.aliases || node.environment !== acting.node.environment || Object.keys( acting.parameters ).length === 0 ) {
+            return node;
+        }
+        for ( let i = 0; i < node.aliases.length; i++ ) {
+            const placeholders = AlLocationURIIndex.getPatternParameters( node.aliases[i] );
+            if ( placeholders.length > 0 ) {
+                const uri = AlLocationURIIndex.expandPattern( node.aliases[i], acting.parameters );
+                if ( uri ) {
+                    return Object.assign( {}, node, { uri } );
+                }
+            }
+        }
         return node;
     }
 
@@ -560,10 +1019,7 @@ export class AlLocatorMatrix
      * All normal regex characters are escaped; * is converted to [a-zA-Z0-9_]+; and the whole expression is wrapped in ^....*$.
      */
     protected escapeLocationPattern( uri:string ):string {
-        let pattern = "^" + uri.replace(/[-\/\\^$.()|[\]{}]/g, '\\$&');     //  escape all regexp characters except *, add anchor
-        pattern = pattern.replace( /\*/g, "([a-zA-Z0-9_\-]+)" );            //  convert * wildcard into group match with 1 or more characters
-        pattern += ".*$";                                                   //  add filler and terminus anchor
-        return pattern;
+        return AlLocationURIIndex.escapeLocationPattern( uri );
     }
 
     /**
@@ -591,24 +1047,14 @@ export class AlLocatorMatrix
         if ( ! this.context.insightLocationId || ! this.context.accessible ) {
             return;
         }
-        if ( ! AlInsightLocations.hasOwnProperty( this.context.insightLocationId ) ) {
+        const insightLocation = this.insightLocations.get( this.context.insightLocationId );
+        if ( ! insightLocation ) {
             return;
         }
-        const insightLocation = AlInsightLocations[this.context.insightLocationId];
-        if ( insightLocation.alternatives ) {
-            let selected = null;
-            for ( let i = 0; i < insightLocation.alternatives.length; i++ ) {
-                let candidateLocationId = insightLocation.alternatives[i];
-                if ( this.context.accessible.indexOf( candidateLocationId ) !== -1 ) {
-                    selected = candidateLocationId;
-                    break;
-                }
-            }
-            if ( selected === null ) {
-                selected = insightLocation.alternatives[0];
-            }
-            console.log(`Notice: treating insight location '%s' as '%s'`, this.context.insightLocationId, selected );       //  logging because this has historically been a point of great confusion
-            this.context.insightLocationId = selected;
+        //  The choice of alternative has historically been a point of great confusion; attach to `insightLocations.onDecision` to observe it.
+        const decision = this.insightLocations.select( this.context.insightLocationId, this.context.accessible );
+        if ( decision ) {
+            this.context.insightLocationId = decision.selected;
         }
         if ( insightLocation.residency && this.context.residency !== insightLocation.residency ) {
             //  Location IDs have higher specificity than residency settings, so given defender-uk-newport and residency: US, the residency should be overridden to reflect EMEA.
@@ -616,7 +1062,123 @@ export class AlLocatorMatrix
         }
     }
 
-    protected timestamp( defaultValue:number ):number {
-        return typeof( window ) !== 'undefined' && window.hasOwnProperty("performance") ? window.performance.now() : defaultValue;
+    protected copyContext():AlLocationContext {
+        return Object.assign( {}, this.context, { accessible: this.context.accessible ? this.context.accessible.slice() : undefined } );
+    }
+
+    /**
+     * Publishes an AlLocatorContextChangedEvent if any of the context's properties differ from their previous values.
+     */
+    protected notifyContextChange( previous:AlLocationContext ) {
+        const current = this.copyContext();
+        if ( previous.environment !== current.environment
+                || previous.residency !== current.residency
+                || previous.insightLocationId !== current.insightLocationId
+                || ( previous.accessible || [] ).join( "," ) !== ( current.accessible || [] ).join( "," ) ) {
+            this.events.trigger( new AlLocatorContextChangedEvent( previous, current ) );
+        }
+    }
+
+    /**
+     * Retrieves every registered node, in the order in which they were added.
+     */
+    protected getRegisteredNodes():AlLocationDescriptor[] {
+        const nodes:AlLocationDescriptor[] = [];
+        this.uriIndex.getEntries().forEach( entry => {
+            if ( ! nodes.includes( entry.location ) ) {
+                nodes.push( entry.location );
+            }
+        } );
+        return nodes;
+    }
+
+    /**
+     * Merges a partial context into the current context, and normalizes the result.
+     */
+    protected applyContext( context?:AlLocationContext ) {
+        this.nodeCache = {};    //  flush lookup cache
+        this.context.insightLocationId = context && context.insightLocationId ? context.insightLocationId : this.context.insightLocationId;
+        this.context.accessible = context && context.accessible && context.accessible.length ? context.accessible : this.context.accessible;
+        /* istanbul ignore next */
+        if ( this.context.insightLocationId ) {
+            let locationNode = this.findOne( n => { return n.insightLocationId === this.context.insightLocationId; } );
+            if ( locationNode && locationNode.residency ) {
+                this.context.residency = locationNode.residency;
+            }
+            //  This block defaults to setting contextual residency to match the bound location.
+        }
+        this.context.environment = context && context.environment ? context.environment : this.context.environment;
+        this.context.residency = context && context.residency ? context.residency : this.context.residency;
+        this.normalizeContext();
+    }
+
+    protected mergeContextOverrides( overrides:AlLocationContext, context:AlLocationContext ):AlLocationContext {
+        const merged:AlLocationContext = Object.assign( {}, overrides );
+        if ( context.environment ) {
+            merged.environment = context.environment;
+        }
+        if ( context.residency ) {
+            merged.residency = context.residency;
+        }
+        if ( context.insightLocationId ) {
+            merged.insightLocationId = context.insightLocationId;
+        }
+        if ( context.accessible ) {
+            merged.accessible = context.accessible;
+        }
+        return merged;
+    }
+
+    /**
+     * Recalculates a forked locator's context from its parent's context and its own overrides.
+     */
+    protected inheritContext() {
+        const parent = this.parent as AlLocatorMatrix<LocationId>;
+        const previous = this.copyContext();
+        this.context = parent.copyContext();
+        if ( this.contextOverrides.residency && ! this.contextOverrides.insightLocationId ) {
+            this.context.insightLocationId = undefined;
+        }
+        this.applyContext( this.contextOverrides );
+        this.notifyContextChange( previous );
+    }
+
+    protected inheritActor() {
+        const parent = this.parent as AlLocatorMatrix<LocationId>;
+        this.actingUri = parent.actingUri;
+        this.acting = parent.acting;
+        this.actor = parent.actor;
+        this.nodeCache = {};
+    }
+
+    /**
+     * Appends a structured target to a base URL.  For applications using hash-based routing, the URL fragment *is* the route, so a target
+     * fragment is merged into the route as its final path segment rather than appended as a second fragment.
+     */
+    protected applyTarget( baseUrl:string, target:AlLocationTarget, hashRouting:boolean ):string {
+        const fragment = ( target.fragment || '' ).replace( /^#/, '' );
+        let path = ( target.path || '' ).replace( /^\/?#/, '' );
+        if ( hashRouting && fragment ) {
+            path = `${path}/${encodeURI( fragment )}`;
+        }
+        path = `/${path}`.replace( /\/{2,}/g, '/' );
+        const parameters:string[] = [];
+        const query = target.query || {};
+        Object.keys( query ).forEach( parameter => {
+            const value = query[parameter];
+            const values:( string|number|boolean|null|undefined )[] = Array.isArray( value ) ? value : [ value ];
+            values.forEach( item => {
+                if ( item !== null && item !== undefined ) {
+                    parameters.push( `${encodeURIComponent( parameter )}=${encodeURIComponent( item.toString() )}` );
+                }
+            } );
+        } );
+        const queryString = parameters.length > 0 ? `?${parameters.join( '&' )}` : '';
+        const base = baseUrl.replace( /\/+$/, '' );
+        if ( hashRouting ) {
+            return `${base}/#${path}${queryString}`;
+        }
+        const fragmentString = fragment ? `#${encodeURI( fragment )}` : '';
+        return `${base}${path === '/' && ! queryString && ! fragmentString ? '' : path}${queryString}${fragmentString}`;
     }
 }
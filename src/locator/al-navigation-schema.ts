@@ -0,0 +1,248 @@
+/**
+ *  Loading, validation, and merging of navigation schema documents, which describe the menus and named routes of a family of applications.
+ *
+ *  Author: Kevin Nielsen <knielsen@alertlogic.com>
+ *  Copyright 2019 Alert Logic, Inc.
+ */
+
+import { AlNavigationSchema, AlRouteAction, AlRouteCondition, AlRouteDefinition } from './al-route.types';
+import { AlEntitlementExpression } from './al-entitlement-expression';
+import { AlMicroJsonValidator, AlJsonPropertyDescriptor, AlJsonSchema } from '../utility/al-micro-json-validator';
+import { AlDataValidationError } from '../errors';
+
+const routeConditionProperties:{[field:string]:AlJsonPropertyDescriptor} = {
+    rule:               { type: "string" },
+    conditions:         { type: "array", items: { $ref: "#/definitions/condition" } },
+    entitlements:       { type: "string" },
+    path_matches:       { type: "string" },
+    parameters:         { type: "array", items: { type: "string" } },
+    environments:       { type: "array", items: { type: "string" } }
+};
+
+const routeActionDescriptor:AlJsonPropertyDescriptor = {
+    type: [ "string", "object" ],           //  A string refers to a named route
+    properties: {
+        type:           { type: "string" },
+        location:       { type: "string" },
+        path:           { type: "string" },
+        url:            { type: "string" },
+        trigger:        { type: "string" }
+    },
+    required: [ "type" ],
+    additionalProperties: false
+};
+
+/**
+ * @public
+ *
+ * The published schema for navigation schema documents and fragments.
+ */
+export const alNavigationJsonSchema:AlJsonSchema = {
+    $id: "al-navigation-schema",
+    description: "Describes the menus and named routes of a family of applications.",
+    type: "object",
+    properties: {
+        $schema:        { type: "string" },
+        name:           { type: "string" },
+        description:    { type: "string" },
+        menus:          { type: "object", additionalProperties: { $ref: "#/definitions/route" } },
+        namedRoutes:    { type: "object", additionalProperties: { $ref: "#/definitions/route" } }
+    },
+    required: [ "name" ],
+    additionalProperties: false,
+    definitions: {
+        route: {
+            type: "object",
+            properties: {
+                caption:        { type: "string" },
+                id:             { type: "string" },
+                bookmarkId:     { type: "string" },
+                properties:     { type: "object" },
+                action:         routeActionDescriptor,
+                visible:        { $ref: "#/definitions/condition" },
+                matches:        { type: "array", items: { type: "string" } },
+                children:       { type: "array", items: { $ref: "#/definitions/route" } },
+                bubble:         { type: "boolean" },
+                isPublic:       {},
+                options:        { type: "array", items: { $ref: "#/definitions/option" } }
+            },
+            required: [ "caption" ],
+            additionalProperties: false
+        },
+        condition: {
+            type: "object",
+            properties: routeConditionProperties,
+            additionalProperties: false
+        },
+        option: {
+            type: "object",
+            properties: {
+                visible:        { type: [ "object", "boolean" ], properties: routeConditionProperties, additionalProperties: false },
+                action:         routeActionDescriptor
+            },
+            required: [ "action" ],
+            additionalProperties: false
+        }
+    }
+};
+
+/**
+ * @public
+ *
+ * Validates, merges, and resolves navigation schemas.
+ *
+ * Fragments are merged in order, so that later fragments (e.g., per-application overlays) modify earlier ones (e.g., a base schema):
+ *
+ *     - The merged schema takes its `name` from the first fragment, and its `description` from the last fragment that has one.
+ *     - Menus with the same ID are merged.  Within a menu, items with the same `id` at the same level are merged: the later item's properties
+ *       replace the earlier item's, except that `properties` are combined and `children` are merged by the same rule.  Items without an `id`
+ *       cannot be matched, and are appended.
+ *     - A named route may only be defined by one fragment.  Defining it again is a conflict, unless the definitions are identical.
+ */
+export class AlNavigationSchemaLoader
+{
+    /**
+     * Validates and merges one or more schema fragments (or their JSON serializations) into a single schema.
+     *
+     * @throws AlDataValidationError if a fragment does not match the navigation schema, if the fragments conflict, or if the merged schema
+     *          refers to undefined named routes, uses a bookmark ID more than once, or contains a malformed entitlement expression.
+     */
+    public static load( ...documents:(AlNavigationSchema|Partial<AlNavigationSchema>|string)[] ):AlNavigationSchema {
+        const fragments:Partial<AlNavigationSchema>[] = documents.map( document => typeof( document ) === 'string' ? JSON.parse( document ) : document );
+        const validator = new AlMicroJsonValidator( alNavigationJsonSchema );
+        fragments.forEach( fragment => validator.validate( alNavigationJsonSchema.$id, fragment ) );
+        const schema = AlNavigationSchemaLoader.merge( ...fragments );
+        const errors = AlNavigationSchemaLoader.check( schema );
+        if ( errors.length > 0 ) {
+            throw new AlDataValidationError( `The navigation schema '${schema.name}' is not valid`, errors );
+        }
+        return schema;
+    }
+
+    /**
+     * Merges schema fragments without validating them.  The fragments are not modified.
+     *
+     * @throws AlDataValidationError if the fragments define conflicting named routes.
+     */
+    public static merge( ...fragments:Partial<AlNavigationSchema>[] ):AlNavigationSchema {
+        const errors:string[] = [];
+        const schema:AlNavigationSchema = { name: "", description: "", menus: {}, namedRoutes: {} };
+        const namedRouteSources:{[routeName:string]:string} = {};
+        JSON.parse( JSON.stringify( fragments ) ).forEach( ( fragment:Partial<AlNavigationSchema> ) => {
+            schema.name = schema.name || fragment.name || "";
+            schema.description = fragment.description || schema.description;
+            Object.keys( fragment.menus || {} ).forEach( menuId => {
+                const menu = ( fragment.menus as {[menuId:string]:AlRouteDefinition} )[menuId];
+                schema.menus[menuId] = schema.menus.hasOwnProperty( menuId ) ? AlNavigationSchemaLoader.mergeRoute( schema.menus[menuId], menu ) : menu;
+            } );
+            Object.keys( fragment.namedRoutes || {} ).forEach( routeName => {
+                const route = ( fragment.namedRoutes as {[routeName:string]:AlRouteDefinition} )[routeName];
+                if ( schema.namedRoutes.hasOwnProperty( routeName ) && JSON.stringify( schema.namedRoutes[routeName] ) !== JSON.stringify( route ) ) {
+                    errors.push( `Named route '${routeName}' is defined by both '${namedRouteSources[routeName]}' and '${fragment.name}'` );
+                    return;
+                }
+                schema.namedRoutes[routeName] = route;
+                namedRouteSources[routeName] = fragment.name || "";
+            } );
+        } );
+        if ( errors.length > 0 ) {
+            throw new AlDataValidationError( `The navigation schema fragments could not be merged`, errors );
+        }
+        return schema;
+    }
+
+    /**
+     * Checks the references, bookmarks, and entitlement expressions of a schema, and returns a list of errors.
+     */
+    public static check( schema:AlNavigationSchema ):string[] {
+        const errors:string[] = [];
+        const bookmarks:{[bookmarkId:string]:string} = {};
+        const checkAction = ( action:AlRouteAction|string|undefined, path:string ) => {
+            if ( typeof( action ) === 'string' && ! schema.namedRoutes.hasOwnProperty( action ) ) {
+                errors.push( `Route at '${path}' refers to undefined named route '${action}'` );
+            }
+        };
+        const checkCondition = ( condition:AlRouteCondition|boolean|undefined, path:string ) => {
+            if ( typeof( condition ) !== 'object' ) {
+                return;
+            }
+            if ( condition.entitlements ) {
+                try {
+                    AlEntitlementExpression.parse( condition.entitlements );
+                } catch( e ) {
+                    errors.push( `Route at '${path}' has a malformed entitlement expression: ${e.message}` );
+                }
+            }
+            ( condition.conditions || [] ).forEach( child => checkCondition( child, path ) );
+        };
+        const checkRoute = ( route:AlRouteDefinition, path:string ) => {
+            if ( route.bookmarkId ) {
+                if ( bookmarks.hasOwnProperty( route.bookmarkId ) ) {
+                    errors.push( `Route at '${path}' reuses bookmark ID '${route.bookmarkId}' from '${bookmarks[route.bookmarkId]}'` );
+                } else {
+                    bookmarks[route.bookmarkId] = path;
+                }
+            }
+            checkAction( route.action, path );
+            checkCondition( route.visible, path );
+            ( route.options || [] ).forEach( ( option, index ) => {
+                checkAction( option.action, `${path}.options.${index}` );
+                checkCondition( option.visible, `${path}.options.${index}` );
+            } );
+            ( route.children || [] ).forEach( ( child, index ) => checkRoute( child, `${path}.children.${index}` ) );
+        };
+
+        Object.keys( schema.menus ).forEach( menuId => checkRoute( schema.menus[menuId], `.menus.${menuId}` ) );
+        Object.keys( schema.namedRoutes ).forEach( routeName => {
+            const route = schema.namedRoutes[routeName];
+            if ( typeof( route.action ) === 'string' ) {
+                errors.push( `Named route '${routeName}' must define its action directly, rather than referring to named route '${route.action}'` );
+            }
+            checkRoute( route, `.namedRoutes.${routeName}` );
+        } );
+        return errors;
+    }
+
+    /**
+     * Creates a copy of a schema in which references to named routes are replaced with the actions of those routes, so that its menus
+     * can be used by routing hosts that don't implement `getRouteByName`.  References to undefined named routes are left unchanged.
+     */
+    public static resolveNamedRoutes( schema:AlNavigationSchema ):AlNavigationSchema {
+        const resolved:AlNavigationSchema = JSON.parse( JSON.stringify( schema ) );
+        const resolveAction = ( action:AlRouteAction|string|undefined ) => {
+            if ( typeof( action ) === 'string' && resolved.namedRoutes.hasOwnProperty( action ) && typeof( resolved.namedRoutes[action].action ) === 'object' ) {
+                return Object.assign( {}, resolved.namedRoutes[action].action );
+            }
+            return action;
+        };
+        const resolveRoute = ( route:AlRouteDefinition ) => {
+            if ( route.action !== undefined ) {
+                route.action = resolveAction( route.action );
+            }
+            ( route.options || [] ).forEach( option => option.action = resolveAction( option.action ) as AlRouteAction|string );
+            ( route.children || [] ).forEach( resolveRoute );
+        };
+        Object.keys( resolved.menus ).forEach( menuId => resolveRoute( resolved.menus[menuId] ) );
+        return resolved;
+    }
+
+    protected static mergeRoute( target:AlRouteDefinition, overlay:AlRouteDefinition ):AlRouteDefinition {
+        const children = ( target.children || [] ).slice();
+        ( overlay.children || [] ).forEach( child => {
+            const index = child.id ? children.findIndex( candidate => candidate.id === child.id ) : -1;
+            if ( index >= 0 ) {
+                children[index] = AlNavigationSchemaLoader.mergeRoute( children[index], child );
+            } else {
+                children.push( child );
+            }
+        } );
+        const merged:AlRouteDefinition = Object.assign( {}, target, overlay );
+        if ( target.properties || overlay.properties ) {
+            merged.properties = Object.assign( {}, target.properties || {}, overlay.properties || {} );
+        }
+        if ( children.length > 0 ) {
+            merged.children = children;
+        }
+        return merged;
+    }
+}
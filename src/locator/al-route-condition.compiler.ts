@@ -0,0 +1,147 @@
+/**
+ *  Compiles route conditions into memoized predicates, so that refreshing a large menu only reevaluates the conditions whose inputs have changed.
+ *
+ *  Author: Kevin Nielsen <knielsen@alertlogic.com>
+ *  Copyright 2019 Alert Logic, Inc.
+ */
+
+import { AlRoute, AlRouteCondition } from './al-route.types';
+import { AlEntitlementExpression } from './al-entitlement-expression';
+import { AlLocatorService } from './al-locator.service';
+
+/**
+ * @public
+ *
+ * Describes the inputs a compiled condition (including its children) depends on.
+ */
+export interface AlRouteConditionInputs
+{
+    parameters:string[];            //  The names of the route parameters it reads
+    url:boolean;                    //  Whether it reads the host's current URL
+    environment:boolean;            //  Whether it reads the current environment
+    entitlements:boolean;           //  Whether it evaluates entitlement expressions
+}
+
+/**
+ * @public
+ *
+ * A route condition compiled into a predicate.  Its result is memoized, and is only recalculated when one of its inputs changes.
+ * Conditions whose entitlements are evaluated by the routing host (rather than against `host.entitlements`) are opaque, and are always recalculated.
+ */
+export class AlCompiledRouteCondition
+{
+    protected signature:string|undefined;
+    protected result:boolean = false;
+
+    constructor( public inputs:AlRouteConditionInputs,
+                 protected predicate:{(route:AlRoute):boolean} ) {
+    }
+
+    public evaluate( route:AlRoute ):boolean {
+        const signature = this.getSignature( route );
+        if ( signature === undefined || signature !== this.signature ) {
+            this.result = this.predicate( route );
+            this.signature = signature;
+        }
+        return this.result;
+    }
+
+    /**
+     * Summarizes the current values of the condition's inputs, or returns undefined if they cannot be summarized.
+     */
+    protected getSignature( route:AlRoute ):string|undefined {
+        const host = route.host;
+        if ( this.inputs.entitlements && ! host.entitlements ) {
+            return undefined;
+        }
+        const parts = this.inputs.parameters.map( parameter => host.routeParameters.hasOwnProperty( parameter ) ? `${parameter}=${host.routeParameters[parameter]}` : `${parameter}!` );
+        if ( this.inputs.url ) {
+            parts.push( host.currentUrl );
+        }
+        if ( this.inputs.environment ) {
+            parts.push( AlLocatorService.getContext().environment || "undefined" );
+        }
+        if ( this.inputs.entitlements && host.entitlements ) {
+            parts.push( host.entitlements.join( "|" ) );
+        }
+        return parts.join( "\n" );
+    }
+}
+
+/**
+ * @public
+ *
+ * Compiles route conditions, and maintains a cache of the regular expressions they use.
+ */
+export class AlRouteConditionCompiler
+{
+    protected static patterns:{[pattern:string]:RegExp} = {};
+
+    /**
+     * Compiles a condition (and its children) into a predicate.
+     *
+     * @throws AlEntitlementExpressionError if an entitlement expression cannot be parsed.
+     */
+    public static compile( condition:AlRouteCondition|boolean ):AlCompiledRouteCondition {
+        const inputs:AlRouteConditionInputs = { parameters: [], url: false, environment: false, entitlements: false };
+        if ( typeof( condition ) === 'boolean' ) {
+            return new AlCompiledRouteCondition( inputs, () => condition );
+        }
+
+        const predicates:{(route:AlRoute):boolean}[] = [];
+        if ( condition.rule && condition.conditions ) {
+            condition.conditions.forEach( child => {
+                const compiled = AlRouteConditionCompiler.compile( child );
+                inputs.parameters.push( ...compiled.inputs.parameters );
+                inputs.url = inputs.url || compiled.inputs.url;
+                inputs.environment = inputs.environment || compiled.inputs.environment;
+                inputs.entitlements = inputs.entitlements || compiled.inputs.entitlements;
+                predicates.push( route => compiled.evaluate( route ) );
+            } );
+        }
+        if ( condition.parameters ) {
+            condition.parameters.forEach( expression => {
+                inputs.parameters.push( expression.split( /!?=/ )[0] );
+                predicates.push( route => route.evaluateParameterExpression( expression ) );
+            } );
+        }
+        if ( condition.path_matches ) {
+            const pathMatches = condition.path_matches;
+            inputs.url = true;
+            predicates.push( route => route.evaluatePathMatch( pathMatches ) );
+        }
+        if ( condition.entitlements ) {
+            const expression = AlEntitlementExpression.parse( condition.entitlements );
+            inputs.entitlements = true;
+            predicates.push( route => route.host.entitlements ? expression.evaluate( route.host.entitlements ) : route.evaluateHostCondition( condition ) );
+        }
+        if ( condition.environments ) {
+            const environments = condition.environments;
+            inputs.environment = true;
+            predicates.push( () => environments.includes( AlLocatorService.getContext().environment || "undefined" ) );
+        }
+        inputs.parameters = inputs.parameters.filter( ( parameter, index, parameters ) => parameters.indexOf( parameter ) === index );
+
+        const rule = condition.rule;
+        return new AlCompiledRouteCondition( inputs, route => {
+            const evaluations = predicates.map( predicate => predicate( route ) );
+            if ( rule === 'none' ) {
+                return ! evaluations.some( value => value );        //  no items are true
+            } else if ( rule === 'any' ) {
+                return evaluations.some( value => value );          //  any items are true
+            } else /* all conditions */ {
+                return evaluations.every( value => value );         //  all items are true
+            }
+        } );
+    }
+
+    /**
+     * Retrieves a compiled regular expression, creating it only if it hasn't been used before.
+     */
+    public static getPattern( pattern:string ):RegExp {
+        if ( ! AlRouteConditionCompiler.patterns.hasOwnProperty( pattern ) ) {
+            AlRouteConditionCompiler.patterns[pattern] = new RegExp( pattern );
+        }
+        return AlRouteConditionCompiler.patterns[pattern];
+    }
+}
@@ -6,6 +6,7 @@
  */
 
 import { AlLocatorService } from './al-locator.service';
+import { AlCompiledRouteCondition, AlRouteConditionCompiler } from './al-route-condition.compiler';
 
 /**
  * @public
@@ -20,13 +21,19 @@ export interface AlRoutingHost
     /* @deprecated Exposes the effective navigation schema, if available (not required).  Don't use this! */
     schema?:AlNavigationSchema;
 
+    /* The current user's entitlements.  If provided, entitlement expressions are evaluated against them directly, without consulting `evaluate`. */
+    entitlements?:string[];
+
+    /* Guards that are consulted before any route is dispatched, ahead of the route's own guards.  See `AlRoute.dispatch`. */
+    guards?:AlRouteGuard[];
+
     /* Routing parameters */
     routeParameters: {[parameter:string]:string};
     setRouteParameter( parameter:string, value:string ):void;
     deleteRouteParameter( parameter:string ):void;
 
     /* Named routes - actions that can be reused by multiple menu items or invoked imperatively from code */
-    getRouteByName?( routeName:string ):AlRouteDefinition;
+    getRouteByName?( routeName:string ):AlRouteDefinition|undefined;
 
     /* Link decoration - allows manipulation of `href` properties for link menu items. */
     decorateHref?( route:AlRoute ):void;
@@ -40,6 +47,12 @@ export interface AlRoutingHost
 
     /* Asks the host to evaluate whether a given routing condition is true or false */
     evaluate(condition:AlRouteCondition):boolean;
+
+    /* Asks the host to evaluate a routing condition that may depend on data that hasn't loaded yet.  Used by `AlRoute.refreshAsync` in preference to `evaluate`. */
+    evaluateAsync?(condition:AlRouteCondition):Promise<boolean>|boolean;
+
+    /* Notifies the host of the outcome of each call to `AlRoute.dispatch`, whether it was allowed, cancelled, or redirected by a guard. */
+    reportGuardOutcome?(outcome:AlRouteGuardOutcome):void;
 }
 
 /**
@@ -79,7 +92,7 @@ export interface AlRouteCondition
 {
     rule?:"any"|"all"|"none";           //  must be "any", "all", or "none"
     conditions?:AlRouteCondition[];     //  An array of child conditions to evaluate using the indicated rule
-    entitlements?:string;               //  An entitlement expression to evaluate
+    entitlements?:string;               //  An entitlement expression to evaluate; see AlEntitlementExpression for its syntax
     path_matches?:string;               //  Path matches a given regular expression
     parameters?:string[];               //  An array of route parameters that must be present, or parameter equivalence tests that must be true
     environments?:string[];             //  An array of environments to match against (e.g., "integration", "development", "production", etc.
@@ -88,8 +101,9 @@ export interface AlRouteCondition
 /**
  *  @public
  *  The action associated with a route.  These are only the most common properties.
+ *  The optional type parameter restricts `location` to a set of known location identifiers, such as AlLocationId.
  */
-export interface AlRouteAction
+export interface AlRouteAction<LocationId extends string = string>
 {
     /**
      *  What type of action does this route have?  Valid types are 'link', 'trigger', and 'callback'
@@ -100,7 +114,7 @@ export interface AlRouteAction
      * If the route action is 'link' (default), these properties indicate which application (location)
      * and route (path) OR url (fully qualified) the link should point to.
      */
-    location?:string;
+    location?:LocationId;
     path?:string;
     url?:string;
 
@@ -119,8 +133,9 @@ export interface AlRouteAction
  *  @public
  *
  *  This is an abstract definition for a single menu item or menu container.
+ *  The optional type parameter restricts the locations its actions (and those of its children) may link to.
  */
-export interface AlRouteDefinition {
+export interface AlRouteDefinition<LocationId extends string = string> {
 
     /* The caption of the menu item */
     caption:string;
@@ -136,7 +151,7 @@ export interface AlRouteDefinition {
 
     /* The action to perform when the menu item is clicked.
      * If the provided value is a string, it will be treated as a reference to a named route in the current schema. */
-    action?:AlRouteAction|string;
+    action?:AlRouteAction<LocationId>|string;
 
     /* A condition that can be evaluated to calculate the `visible` property at any given moment */
     visible?:AlRouteCondition;
@@ -145,7 +160,7 @@ export interface AlRouteDefinition {
     matches?:string[];
 
     /* Nested menu items */
-    children?:AlRouteDefinition[];
+    children?:AlRouteDefinition<LocationId>[];
 
     /* Behavior inflection: if this item is enabled, enable the parent item and project into its href.  This is useful for top level menu items that should direct to a child route. */
     bubble?:boolean;
@@ -154,7 +169,108 @@ export interface AlRouteDefinition {
     isPublic?:boolean|null;
 
     /* Optional sub-route definitions.  If present, the first item whose `visible` conditions are met will have its `action` promoted into the main route definition. */
-    options?: { visible?:AlRouteCondition|boolean, action:AlRouteAction|string }[];
+    options?: { visible?:AlRouteCondition|boolean, action:AlRouteAction<LocationId>|string }[];
+}
+
+/**
+ *  @internal
+ *
+ *  The state of a single `AlRoute.refreshAsync` cycle, shared by every route in the refreshed tree.
+ */
+export interface AlRouteEvaluationCycle
+{
+    results:{[condition:string]:boolean};                   //  Settled condition results, keyed by serialized condition
+    promises:{[condition:string]:Promise<boolean>};         //  Condition results that have not settled yet
+    deferred:number;                                        //  The number of times an unsettled condition has been consulted
+}
+
+/**
+ *  @public
+ *
+ *  The result of matching a URL against a route with `AlRoute.match` or `AlRoute.findRouteByUrl`.
+ */
+export interface AlRouteMatch
+{
+    route:AlRoute;
+    parameters:{[parameter:string]:string};     //  The values of the path parameters in the route's action, e.g. `{ accountId: "2" }` for `/#/summary/:accountId`
+}
+
+/**
+ *  @public
+ *
+ *  The decision of a route guard.
+ */
+export interface AlRouteGuardDecision
+{
+    outcome:"allow"|"cancel"|"redirect";
+    redirect?:string;                           //  For 'redirect', the name of the named route to dispatch instead
+    params?:{[param:string]:string};            //  For 'redirect', the parameters to dispatch the named route with.  Defaults to the original parameters.
+    reason?:string;                             //  A description of the decision, for reporting
+}
+
+/**
+ *  @public
+ *
+ *  A function that is consulted before a route is dispatched.  It may return (or resolve to) `true` to allow the navigation, `false` to cancel it,
+ *  or a decision.  A guard that throws (or rejects) cancels the navigation.
+ */
+export type AlRouteGuard = ( route:AlRoute, params?:{[param:string]:string} ) => AlRouteGuardDecision|boolean|Promise<AlRouteGuardDecision|boolean>;
+
+/**
+ *  @public
+ *
+ *  The outcome of a call to `AlRoute.dispatch`.
+ */
+export interface AlRouteGuardOutcome
+{
+    outcome:"allow"|"cancel"|"redirect";
+    route:AlRoute;                              //  The route whose dispatch was requested
+    dispatched?:AlRoute;                        //  The route that was actually dispatched: the requested route, the target of a redirect, or undefined if cancelled
+    redirects:string[];                         //  The named routes that were redirected to, in order
+    reason?:string;                             //  The reason given by the guard that cancelled or redirected the navigation
+}
+
+/**
+ *  @public
+ *
+ *  A single item in the breadcrumb trail produced by `AlRoute.getBreadcrumbs`.
+ */
+export interface AlRouteBreadcrumb
+{
+    caption:string;                 //  The route's `breadcrumb` property (with route parameters interpolated), or its caption
+    href?:string;                   //  The route's resolved link, or undefined if it has none
+    route:AlRoute;
+}
+
+/**
+ *  @public
+ *
+ *  Options for `AlRoute.getBreadcrumbs`.
+ */
+export interface AlRouteBreadcrumbOptions
+{
+    includeRoot?:boolean;           //  Include the route whose breadcrumbs are being retrieved (typically the menu itself).  Defaults to false.
+    includeContainers?:boolean;     //  Include activated routes that don't link anywhere (e.g., menu sections), without an href.  Defaults to false.
+}
+
+/**
+ *  @public
+ *
+ *  A plain JSON representation of an evaluated route and its descendants, produced by `AlRoute.toJSON` and consumed by `AlRoute.hydrate`.
+ */
+export interface AlRouteSnapshot
+{
+    definition:AlRouteDefinition;       //  The route's definition, without its children.  Callback actions cannot be represented.
+    caption:string;
+    visible:boolean;
+    enabled:boolean;
+    locked:boolean;
+    activated:boolean;
+    pending?:boolean;
+    properties:{[property:string]:any};
+    baseHREF?:string;
+    href?:string;
+    children:AlRouteSnapshot[];
 }
 
 /**
@@ -180,6 +296,9 @@ export class AlRoute {
     /* Is the menu item currently activated/expanded?  This will allow child items to be seen. */
     activated:boolean = false;
 
+    /* Is the menu item's visibility waiting on asynchronous conditions?  If so, it is hidden until they are settled by `refreshAsync`. */
+    pending:boolean = false;
+
     /* Child menu items */
     children:AlRoute[] = [];
 
@@ -194,12 +313,23 @@ export class AlRoute {
     /* Cached target URL */
     href?:string;
 
+    /* The asynchronous refresh cycle in progress, if any */
+    protected cycle?:AlRouteEvaluationCycle;
+
+    /* The compiled forms of the route's `visible` condition and option conditions */
+    protected compiled?:{ visible?:AlCompiledRouteCondition, options:AlCompiledRouteCondition[] };
+
+    /* Guards registered with `addGuard` */
+    protected guards:AlRouteGuard[] = [];
+
     constructor( public host:AlRoutingHost,                     /* Link to the routing host, which exposes current routing context, routing parameters, and actions that influence the environment */
                  public definition:AlRouteDefinition,           /* The raw data of the route */
-                 public parent:AlRoute|undefined = undefined    /* Parent menu item (if not a top level navigational slot) */
+                 public parent:AlRoute|undefined = undefined,   /* Parent menu item (if not a top level navigational slot) */
+                 evaluate:boolean = true                        /* If false, the initial refresh of a top level item is skipped */
     ) {
         this.definition =   definition;
         this.caption    =   definition.caption;
+        this.compileConditions();
         if ( definition.bookmarkId ) {
             this.host.setBookmark( definition.bookmarkId, this );
         }
@@ -211,7 +341,7 @@ export class AlRoute {
         if ( definition.properties ) {
             this.properties = Object.assign( this.properties, definition.properties );      //  definition properties provide the "starting point" for the route's properties, but remain immutable defaults
         }
-        if ( parent === undefined ) {
+        if ( parent === undefined && evaluate ) {
             //  This effectively performs the initial refresh/state evaluation to occur once, after the top level item has finished populating
             this.refresh( true );
         }
@@ -228,6 +358,28 @@ export class AlRoute {
         return new AlRoute( host, { caption: caption, action: { type: "link", location: locationId, path: path }, properties: {} } );
     }
 
+    /**
+     * Rebuilds a route tree from a snapshot produced by `toJSON`, attached to the given routing host.  The state of each route is restored
+     * from the snapshot rather than evaluated, so conditions are not evaluated until the tree is refreshed.
+     */
+    public static hydrate( host:AlRoutingHost, snapshot:AlRouteSnapshot|string ):AlRoute {
+        const data:AlRouteSnapshot = typeof( snapshot ) === 'string' ? JSON.parse( snapshot ) : snapshot;
+        const route = new AlRoute( host, AlRoute.assembleDefinition( data ), undefined, false );
+        route.applySnapshot( data );
+        return route;
+    }
+
+    /**
+     * Rebuilds a complete definition tree from a snapshot, reattaching each route's children to its definition.
+     */
+    protected static assembleDefinition( snapshot:AlRouteSnapshot ):AlRouteDefinition {
+        const definition:AlRouteDefinition = Object.assign( {}, snapshot.definition );
+        if ( snapshot.children.length > 0 ) {
+            definition.children = snapshot.children.map( child => AlRoute.assembleDefinition( child ) );
+        }
+        return definition;
+    }
+
     /**
      * Sets an arbitrary property for the route
      */
@@ -261,7 +413,11 @@ export class AlRoute {
     /**
      * Refreshes the state of a given route.
      *
-     * @param resolve - If true, forces the calculated href and visibility properties to be recalculated.
+     * Conditions are compiled when the route is created, and are only reevaluated when the route parameters, URL, environment, or entitlements
+     * they depend on change.
+     *
+     * @param resolve - If true, forces the calculated href and visibility properties to be recalculated, and recompiles the route's conditions
+     *                  so that changes to its definition take effect.
      *
      * @returns Returns true if the route (or one of its children) is activated, false otherwise.
      */
@@ -273,7 +429,13 @@ export class AlRoute {
             return;
         }
 
+        if ( resolve ) {
+            this.compileConditions();
+        }
+
         /* Evaluate visibility */
+        const cycle = this.getEvaluationCycle();
+        const deferred = cycle ? cycle.deferred : 0;
         this.visible = true;        //  true until proven otherwise
         if ( this.parent ) {
             if ( typeof( this.definition.isPublic ) === "undefined" && this.parent ) {
@@ -295,7 +457,12 @@ export class AlRoute {
         if ( typeof( this.definition.options ) !== 'undefined' ) {
             this.visible = this.visible && this.evaluateRouteOptions();
         } else {
-            this.visible = this.visible && ( this.definition.hasOwnProperty( 'visible' ) ? this.evaluateCondition( this.definition.visible || false ) : true );
+            const compiled = this.compileConditions( false ).visible;
+            this.visible = this.visible && ( compiled ? compiled.evaluate( this ) : true );
+        }
+        this.pending = cycle ? cycle.deferred > deferred : false;
+        if ( this.pending ) {
+            this.visible = false;
         }
 
         /* Evaluate children recursively, and deduce activation state from them. */
@@ -333,18 +500,48 @@ export class AlRoute {
         return this.activated;
     }
 
+    /**
+     * Refreshes the state of a given route, allowing conditions to be evaluated asynchronously by the host's `evaluateAsync` method.
+     * Each distinct condition is evaluated at most once per cycle.  The tree is refreshed immediately, with routes whose visibility depends on
+     * unsettled conditions marked as `pending` (and hidden); it is refreshed again as those conditions settle.  Rejected conditions are treated as false.
+     *
+     * @param resolve - If true, forces the calculated href and visibility properties to be recalculated.
+     *
+     * @returns Resolves to true if the route (or one of its children) is activated, false otherwise.
+     */
+    async refreshAsync( resolve:boolean = false ):Promise<boolean|undefined> {
+        const cycle:AlRouteEvaluationCycle = { results: {}, promises: {}, deferred: 0 };
+        this.cycle = cycle;
+        try {
+            let activated = this.refresh( resolve );
+            let unsettled = Object.keys( cycle.promises );
+            while ( unsettled.length > 0 ) {
+                await Promise.all( unsettled.map( key => cycle.promises[key] ) );
+                unsettled.forEach( key => delete cycle.promises[key] );
+                activated = this.refresh( resolve );
+                unsettled = Object.keys( cycle.promises );
+            }
+            return activated;
+        } finally {
+            if ( this.cycle === cycle ) {
+                this.cycle = undefined;
+            }
+        }
+    }
+
     evaluateRouteOptions():boolean {
         if ( typeof( this.definition.options ) === 'undefined' ) {
             return false;
         }
-        const activatedOption = this.definition.options.find( option => {
+        const compiled = this.compileConditions( false ).options;
+        const activatedOption = this.definition.options.find( ( option, index ) => {
             if ( typeof( option.visible ) === 'undefined' ) {
                 return true;
             }
             if ( typeof( option.visible ) === 'boolean' ) {
                 return option.visible;
             }
-            return this.evaluateCondition( option.visible || false );
+            return compiled[index] ? compiled[index].evaluate( this ) : this.evaluateCondition( option.visible || false );
         } );
         if ( ! activatedOption ) {
             return false;
@@ -364,10 +561,38 @@ export class AlRoute {
 
     /**
      * "Executes" a route.  This invokes the `dispatch` method on whatever routing host was provided to the menu at load time.
+     *
+     * Before the route is dispatched, the guards registered on the host, on each of the route's ancestors (from the top down), and on the route
+     * itself are consulted in order.  Any guard may cancel the navigation, or redirect it to a named route, whose guards are consulted in turn.
+     * If there are no guards, the host's `dispatch` method is called immediately; otherwise, it is called once the guards have settled.
+     *
+     * @returns A promise that resolves to the outcome, which is also reported to the host's `reportGuardOutcome` method.
      */
-    dispatch() {
+    dispatch( params?:{[param:string]:string} ):Promise<AlRouteGuardOutcome> {
         this.refresh( true );
-        return this.host.dispatch( this );
+        if ( this.getGuards().length === 0 ) {
+            this.host.dispatch( this, params );
+            return Promise.resolve( this.reportGuardOutcome( { outcome: "allow", route: this, dispatched: this, redirects: [] } ) );
+        }
+        return this.dispatchGuarded( this, params, [] ).then( outcome => this.reportGuardOutcome( outcome ) );
+    }
+
+    /**
+     * Registers a guard that is consulted before this route or any of its descendants is dispatched.
+     *
+     * @returns A function that unregisters the guard.
+     */
+    addGuard( guard:AlRouteGuard ):{():void} {
+        this.guards.push( guard );
+        return () => this.guards = this.guards.filter( candidate => candidate !== guard );
+    }
+
+    /**
+     * Lists the guards that apply to this route: those of the host, then those of its ancestors from the top down, then its own.
+     */
+    getGuards():AlRouteGuard[] {
+        const inherited = this.parent ? this.parent.getGuards() : ( this.host.guards || [] );
+        return inherited.concat( this.guards );
     }
 
     /**
@@ -378,6 +603,67 @@ export class AlRoute {
         return this.href;
     }
 
+    /**
+     * Determines whether a URL is a link to this route, by comparing it to the URI of the action's location and its path template.  This is the reverse
+     * of `evaluateHref`: required parameters (`:param`) must be present, optional parameters (`:param%`) may be omitted, and query strings and
+     * trailing slashes are ignored.
+     *
+     * @returns The route and the values of its path parameters, or null if the URL doesn't match.
+     */
+    match( url:string ):AlRouteMatch|null {
+        const action = this.getRouteAction();
+        if ( ! action || action.type !== 'link' ) {
+            return null;
+        }
+        const target = url.replace( /[?].*$/, '' ).replace( /[ \/]+$/g, '' );
+        if ( action.url ) {
+            return target === action.url.replace( /[?].*$/, '' ).replace( /[ \/]+$/g, '' ) ? { route: this, parameters: {} } : null;
+        }
+        const node = action.location ? AlLocatorService.getNode( action.location ) : null;
+        if ( ! node || ! target.startsWith( node.uri ) ) {
+            return null;
+        }
+        const parameterNames:string[] = [];
+        const template = ( action.path || '' ).replace( /[ \/]+$/g, '' );
+        const expression = template.split( /(\/?:[a-zA-Z_%]+)/ ).map( ( part, index ) => {
+            if ( index % 2 === 0 ) {
+                return part.replace( /[.*+?^${}()|[\]\\\/]/g, '\\$&' );
+            }
+            const slash = part[0] === '/' ? '\\/' : '';
+            const optional = part[part.length - 1] === '%';
+            parameterNames.push( part.substring( slash ? 2 : 1, optional ? part.length - 1 : part.length ) );
+            return optional ? `(?:${slash}([^/?#]*))?` : `${slash}([^/?#]+)`;
+        } ).join( '' );
+        const match = AlRouteConditionCompiler.getPattern( `^${expression}$` ).exec( target.substring( node.uri.length ) );
+        if ( ! match ) {
+            return null;
+        }
+        const parameters:{[parameter:string]:string} = {};
+        parameterNames.forEach( ( parameter, index ) => {
+            if ( match[index + 1] ) {
+                parameters[parameter] = this.decode( match[index + 1] );
+            }
+        } );
+        return { parameters, route: this };
+    }
+
+    /**
+     * Finds the route within this route's tree (including this route) that best matches a URL.  If several routes match, the one with the fewest
+     * path parameters -- i.e., the most literal match -- is preferred, followed by the first in document order.
+     *
+     * @returns The route and the values of its path parameters, or null if no route matches.
+     */
+    findRouteByUrl( url:string ):AlRouteMatch|null {
+        let best = this.match( url );
+        this.children.forEach( child => {
+            const candidate = child.findRouteByUrl( url );
+            if ( candidate && ( ! best || Object.keys( candidate.parameters ).length < Object.keys( best.parameters ).length ) ) {
+                best = candidate;
+            }
+        } );
+        return best;
+    }
+
     /**
      * Diagnostic method for logging the current hierarchy and state of a given navigational tree.  Excluded from unit test coverage because no production code should utilize it!
      */
@@ -391,10 +677,110 @@ export class AlRoute {
         }
     }
 
+    /**
+     * Produces a plain snapshot of the route's current state and that of its descendants, suitable for serialization and `AlRoute.hydrate`.
+     * Because this method is named `toJSON`, `JSON.stringify( route )` yields the serialized snapshot.
+     */
+    toJSON():AlRouteSnapshot {
+        const definition:AlRouteDefinition = Object.assign( {}, this.definition );
+        delete definition.children;
+        const snapshot:AlRouteSnapshot = {
+            definition: JSON.parse( JSON.stringify( definition ) ),
+            caption: this.caption,
+            visible: this.visible,
+            enabled: this.enabled,
+            locked: this.locked,
+            activated: this.activated,
+            pending: this.pending,
+            properties: JSON.parse( JSON.stringify( this.properties ) ),
+            children: this.children.map( child => child.toJSON() )
+        };
+        if ( this.baseHREF !== undefined ) {
+            snapshot.baseHREF = this.baseHREF;
+        }
+        if ( this.href !== undefined ) {
+            snapshot.href = this.href;
+        }
+        return snapshot;
+    }
+
     /**
      *---- Helper Methods ---------------------------------------------
      */
 
+    /**
+     * Consults the route's guards in order, and then dispatches the route (or the target of a redirect).
+     */
+    async dispatchGuarded( requested:AlRoute, params:{[param:string]:string}|undefined, redirects:string[] ):Promise<AlRouteGuardOutcome> {
+        for ( let guard of this.getGuards() ) {
+            let decision:AlRouteGuardDecision;
+            try {
+                const result = await guard( this, params );
+                if ( typeof( result ) === 'boolean' ) {
+                    decision = { outcome: result ? "allow" : "cancel" };
+                } else if ( result && typeof( result ) === 'object' && [ "allow", "cancel", "redirect" ].includes( result.outcome ) ) {
+                    decision = result;
+                } else {
+                    decision = { outcome: "cancel", reason: `A guard returned an invalid result: ${result}` };
+                }
+            } catch( e ) {
+                decision = { outcome: "cancel", reason: `A guard failed: ${e && e.message ? e.message : e}` };
+            }
+            if ( decision.outcome === "cancel" ) {
+                return { redirects, outcome: "cancel", route: requested, reason: decision.reason };
+            }
+            if ( decision.outcome === "redirect" ) {
+                const routeName = decision.redirect || "";
+                const definition = this.host.getRouteByName ? this.host.getRouteByName( routeName ) : undefined;
+                if ( redirects.includes( routeName ) ) {
+                    return { redirects, outcome: "cancel", route: requested, reason: `Redirecting to '${routeName}' again would create a loop` };
+                }
+                if ( ! definition ) {
+                    return { redirects, outcome: "cancel", route: requested, reason: `Cannot redirect to unknown named route '${routeName}'` };
+                }
+                //  The target exists only to be dispatched: it is evaluated once its guards have settled, and never registers itself (or its children) as a bookmark
+                const target = new AlRoute( this.host, Object.assign( {}, definition, { bookmarkId: undefined, children: undefined } ), undefined, false );
+                const outcome = await target.dispatchGuarded( requested, decision.params || params, redirects.concat( routeName ) );
+                if ( outcome.outcome !== "cancel" ) {
+                    outcome.outcome = "redirect";
+                    outcome.reason = outcome.reason || decision.reason;
+                }
+                return outcome;
+            }
+        }
+        if ( this !== requested ) {
+            this.refresh( true );
+        }
+        this.host.dispatch( this, params );
+        return { redirects, outcome: "allow", route: requested, dispatched: this };
+    }
+
+    /**
+     * Passes the outcome of a dispatch to the host, if it wants it.
+     */
+    reportGuardOutcome( outcome:AlRouteGuardOutcome ):AlRouteGuardOutcome {
+        if ( this.host.reportGuardOutcome ) {
+            this.host.reportGuardOutcome( outcome );
+        }
+        return outcome;
+    }
+
+    /**
+     * Restores the state of the route and its descendants from a snapshot.
+     */
+    applySnapshot( snapshot:AlRouteSnapshot ) {
+        this.caption = snapshot.caption;
+        this.visible = snapshot.visible;
+        this.enabled = snapshot.enabled;
+        this.locked = snapshot.locked;
+        this.activated = snapshot.activated;
+        this.pending = !! snapshot.pending;
+        this.properties = Object.assign( {}, snapshot.properties );
+        this.baseHREF = snapshot.baseHREF;
+        this.href = snapshot.href;
+        this.children.forEach( ( child, index ) => child.applySnapshot( snapshot.children[index] ) );
+    }
+
     /**
      * Evaluates the HREF for an route with action type 'link'
      */
@@ -460,7 +846,7 @@ export class AlRoute {
                 //  If we match any other match patterns, we are activated
                 for ( let m = 0; m < this.definition.matches.length; m++ ) {
                     const regexp = ( "^" + this.baseHREF + this.definition.matches[m] + "$" ).replace("/", "\\/" );
-                    const comparison = new RegExp( regexp );
+                    const comparison = AlRouteConditionCompiler.getPattern( regexp );
                     if ( comparison.test( this.host.currentUrl ) ) {
                         this.activated = true;
                     }
@@ -479,38 +865,62 @@ export class AlRoute {
      *      c) path matches
      *      d) entitlements or other externally calculated conditions
      *  And then uses a simple reducer to roll up all results based on the condition rule, which defaults to 'all'.
+     *  See AlRouteConditionCompiler for details; unlike the route's own conditions, the condition is compiled anew on each call.
      */
     evaluateCondition( condition:AlRouteCondition|boolean ):boolean {
-        if ( typeof( condition ) === 'boolean' ) {
-            return condition;
-        }
+        return AlRouteConditionCompiler.compile( condition ).evaluate( this );
+    }
 
-        let evaluations:boolean[] = [];
-        if ( condition.rule && condition.conditions ) {
-            evaluations = evaluations.concat( condition.conditions.map( condition => this.evaluateCondition( condition ) ) );
+    /**
+     * Compiles the route's `visible` condition and option conditions.
+     *
+     * @param recompile - If false, previously compiled conditions are reused.
+     *
+     * @throws AlEntitlementExpressionError if an entitlement expression cannot be parsed.
+     */
+    compileConditions( recompile:boolean = true ):{ visible?:AlCompiledRouteCondition, options:AlCompiledRouteCondition[] } {
+        if ( recompile || ! this.compiled ) {
+            const options = this.definition.options || [];
+            this.compiled = {
+                visible: this.definition.hasOwnProperty( 'visible' ) ? AlRouteConditionCompiler.compile( this.definition.visible || false ) : undefined,
+                options: options.map( option => AlRouteConditionCompiler.compile( typeof( option.visible ) === 'undefined' ? true : option.visible ) )
+            };
         }
+        return this.compiled;
+    }
 
-        if ( condition.parameters ) {
-            evaluations = evaluations.concat( condition.parameters.map( parameterExpression => this.evaluateParameterExpression( parameterExpression ) ) );
-        }
-        if ( condition.path_matches ) {
-            //  Evaluates true only if the current path matches a given regular expression
-            evaluations.push( this.evaluatePathMatch( condition.path_matches ) );
+    /**
+     * Asks the host to evaluate a condition.  During an asynchronous refresh cycle, results are memoized, and unsettled conditions evaluate to false.
+     */
+    evaluateHostCondition( condition:AlRouteCondition ):boolean {
+        const cycle = this.getEvaluationCycle();
+        if ( ! cycle ) {
+            return this.host.evaluate( condition );
         }
-        if ( condition.entitlements ) {
-            //  This condition refers to entitlement or other externally managed data -- ask the host to evaluate it.
-            evaluations.push( this.host.evaluate( condition ) );
+        const key = JSON.stringify( condition );
+        if ( ! cycle.results.hasOwnProperty( key ) && ! cycle.promises.hasOwnProperty( key ) ) {
+            const result = this.host.evaluateAsync ? this.host.evaluateAsync( condition ) : this.host.evaluate( condition );
+            if ( typeof( result ) === 'boolean' ) {
+                cycle.results[key] = result;
+            } else {
+                cycle.promises[key] = result.then( value => cycle.results[key] = !! value, () => cycle.results[key] = false );
+            }
         }
-        if ( condition.environments ) {
-            evaluations.push( condition.environments.includes( AlLocatorService.getContext().environment || "undefined" ) );
+        if ( cycle.results.hasOwnProperty( key ) ) {
+            return cycle.results[key];
         }
-        if ( condition.rule === 'none' ) {
-            return ! evaluations.some( value => value );        //  no items are true
-        } else if ( condition.rule === 'any' ) {
-            return evaluations.some( value => value );          //  any items are true
-        } else /* all conditions */ {
-            return evaluations.every( value => value );         //  all items are true
+        cycle.deferred++;
+        return false;
+    }
+
+    /**
+     * Retrieves the asynchronous refresh cycle in progress for this route or any of its ancestors.
+     */
+    getEvaluationCycle():AlRouteEvaluationCycle|undefined {
+        if ( this.cycle ) {
+            return this.cycle;
         }
+        return this.parent ? this.parent.getEvaluationCycle() : undefined;
     }
 
     /**
@@ -533,7 +943,7 @@ export class AlRoute {
      */
     evaluatePathMatch( pathMatches:string ) {
         let pattern = "^.*" + pathMatches.replace(/[{}|[\]\\\/]/g, '\\$&') + "$";
-        let comparison = new RegExp( pattern );
+        let comparison = AlRouteConditionCompiler.getPattern( pattern );
         return comparison.test( this.host.currentUrl );
     }
 
@@ -543,7 +953,7 @@ export class AlRoute {
     getRouteAction():AlRouteAction|null {
         if ( typeof( this.definition.action ) === 'string' ) {
             if ( typeof( this.host.getRouteByName ) === 'function' ) {
-                const definition:AlRouteDefinition = this.host.getRouteByName( this.definition.action );
+                const definition = this.host.getRouteByName( this.definition.action );
                 if ( definition && definition.action ) {
                     return definition.action as AlRouteAction;
                 }
@@ -640,12 +1050,87 @@ export class AlRoute {
         }
         return activationPath;
     }
+
+    /**
+     * Generates a breadcrumb trail from the activation path beneath this route, from top to bottom.  The activation cursor itself is always
+     * the last item.  Above it,
+     *
+     *     - Hidden routes are skipped.
+     *     - Routes that don't link anywhere (either directly, or through a child that bubbles into them) are skipped, unless `includeContainers` is set.
+     *     - Routes that bubble into their parent are skipped, since the parent already links to the same place.
+     *
+     * Each item's caption is taken from the route's `breadcrumb` property, if it has one, with route parameters interpolated (see `interpolate`).
+     *
+     * @returns The breadcrumb trail, which is empty if no route is activated.
+     */
+    getBreadcrumbs( options:AlRouteBreadcrumbOptions = {} ):AlRouteBreadcrumb[] {
+        const activationPath = this.getActivationCursorFlat() || [];
+        const routes = activationPath.slice( activationPath.indexOf( this ) + ( options.includeRoot ? 0 : 1 ) );
+        const breadcrumbs:AlRouteBreadcrumb[] = [];
+        routes.forEach( ( route, index ) => {
+            const href = route.visible ? route.href : undefined;
+            if ( route.definition.bubble && index > 0 && href && href === routes[index - 1].href ) {
+                return;
+            }
+            if ( index < routes.length - 1 && ( ! route.visible || ( ! href && ! options.includeContainers ) ) ) {
+                return;
+            }
+            const template = route.getProperty( 'breadcrumb' );
+            breadcrumbs.push( { href, route, caption: typeof( template ) === 'string' ? route.interpolate( template ) : route.caption } );
+        } );
+        return breadcrumbs;
+    }
+
+    /**
+     * Generates a page title from the activation path beneath this route.  The deepest activated route with a `title` property determines the
+     * title, with route parameters interpolated (see `interpolate`); if none has one, the breadcrumb captions are joined from the bottom up.
+     *
+     * @param separator - Separates breadcrumb captions in a generated title.
+     *
+     * @returns The title, or undefined if no route is activated.
+     */
+    getPageTitle( separator:string = " - " ):string|undefined {
+        const activationPath = this.getActivationCursorFlat();
+        if ( ! activationPath ) {
+            return undefined;
+        }
+        const titled = activationPath.slice( activationPath.indexOf( this ) ).reverse().find( route => typeof( route.getProperty( 'title' ) ) === 'string' );
+        if ( titled ) {
+            return titled.interpolate( titled.getProperty( 'title' ) );
+        }
+        return this.getBreadcrumbs().map( breadcrumb => breadcrumb.caption ).reverse().join( separator );
+    }
+
+    /**
+     * Substitutes route parameters into a template, e.g. `Incident {incidentId}`.  `{caption}` is replaced by the route's caption, unless there
+     * is a route parameter of that name; other unknown parameters are replaced with empty strings.
+     */
+    interpolate( template:string ):string {
+        return template.replace( /{([a-zA-Z_][a-zA-Z0-9_]*)}/g, ( _match, parameter ) => {
+            if ( this.host.routeParameters.hasOwnProperty( parameter ) ) {
+                return this.host.routeParameters[parameter];
+            }
+            return parameter === 'caption' ? this.caption : '';
+        } );
+    }
+
+    /**
+     * Decodes a path parameter, keeping the raw segment if it is malformed (e.g., `%E0`) so that a bad address doesn't break route matching.
+     */
+    protected decode( value:string ):string {
+        try {
+            return decodeURIComponent( value );
+        } catch( e ) {
+            return value;
+        }
+    }
 }
 
 /**
  * @public
  *
  * This is a top-level interface for the structure of a schema document, which is a set of compiled menus and behavioral rules.
+ * Use AlNavigationSchemaLoader to validate schema documents and merge them.
  */
 export interface AlNavigationSchema
 {
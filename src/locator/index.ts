@@ -1,4 +1,16 @@
 export * from './al-locator.types';
+export * from './al-locator.events';
+export * from './al-locator-environment';
+export * from './al-insight-location-registry';
+export * from './al-location-uri-index';
+export * from './al-location-validator';
+export * from './al-location-overrides';
+export * from './al-location-health';
+export * from './al-location-topology';
 export * from './al-location.dictionary';
 export * from './al-locator.service';
+export * from './al-entitlement-expression';
+export * from './al-route-condition.compiler';
 export * from './al-route.types';
+export * from './al-navigation-schema';
+export * from './al-history-routing-host';
@@ -1,11 +1,15 @@
+import { AlDataValidationError } from '../errors';
 
 export type AlJsonType = "object" | "array" | "string" | "boolean" | "number";
 
 export interface AlJsonPropertyDescriptor {
-    type: AlJsonType;
+    type?: AlJsonType|AlJsonType[];
     description?:string;
     items?: AlJsonPropertyDescriptor;
     $ref?:string;
+    properties?:{[field:string]:AlJsonPropertyDescriptor};
+    required?: string[];
+    additionalProperties?: AlJsonPropertyDescriptor|boolean;
 }
 
 export interface AlJsonTypeSpecification
@@ -13,6 +17,7 @@ export interface AlJsonTypeSpecification
     type:string;
     properties:{[field:string]:AlJsonPropertyDescriptor};
     required?: string[];
+    additionalProperties?: AlJsonPropertyDescriptor|boolean;
     mininum?:number;
     maximum?:number;
 }
@@ -24,6 +29,12 @@ export interface AlJsonSchema extends AlJsonTypeSpecification
     definitions?:{[typeName:string]:AlJsonTypeSpecification};
 }
 
+/**
+ * @public
+ *
+ * A tiny, dependency-free validator for a small subset of JSON Schema: `type` (including type lists), `properties`, `required`, `additionalProperties`,
+ * `items`, and `$ref` (to `#/definitions/...` within the same schema, or to the `$id` of another registered schema).
+ */
 export class AlMicroJsonValidator
 {
     protected static schemaDictionary:{[schemaId:string]:AlJsonSchema} = {};
@@ -32,19 +43,26 @@ export class AlMicroJsonValidator
         schemas.forEach( schema => AlMicroJsonValidator.schemaDictionary[schema.$id] = schema );
     }
 
+    /**
+     * Validates data against a registered schema, throwing an AlDataValidationError describing every discrepancy if it does not match.
+     */
     validate( schemaId:string, data:any ) {
         const schema = this.getSchemaById( schemaId );
-        this.validateStructure( data, schema );
+        const errors = this.collectErrors( data, schema, [ "" ], schema );
+        if ( errors.length > 0 ) {
+            throw new AlDataValidationError( `Provided data does not match the schema '${schemaId}'`, errors, schemaId );
+        }
     }
 
-    validateStructure( cursor:any, typeDescriptor:AlJsonTypeSpecification|string, jsonPath:string[] = [ "" ] ) {
-        if ( typeof( typeDescriptor ) === 'string' ) {
-            let schema = this.getSchemaById( typeDescriptor );
-            typeDescriptor = schema;
-        }
-        let cursorType = typeof( cursor );
-        if ( cursorType !== typeDescriptor.type ) {
-            throw new Error(`Value at '${jsonPath.join(".")}' was not of expected type '${typeDescriptor.type}'` );
+    /**
+     * Validates a value against a type descriptor (or the ID of a registered schema), throwing an AlDataValidationError describing every
+     * discrepancy if it does not match.
+     */
+    validateStructure( cursor:any, typeDescriptor:AlJsonPropertyDescriptor|AlJsonTypeSpecification|string, jsonPath:string[] = [ "" ], rootSchema?:AlJsonSchema ) {
+        const errors = this.collectErrors( cursor, typeDescriptor, jsonPath, rootSchema );
+        if ( errors.length > 0 ) {
+            const schemaId = typeof( typeDescriptor ) === 'string' ? typeDescriptor : ( rootSchema ? rootSchema.$id : undefined );
+            throw new AlDataValidationError( errors.join( "; " ), errors, schemaId );
         }
     }
 
@@ -54,4 +72,78 @@ export class AlMicroJsonValidator
         }
         return AlMicroJsonValidator.schemaDictionary[schemaId];
     }
+
+    protected resolveReference( reference:string, rootSchema?:AlJsonSchema ):{descriptor:AlJsonTypeSpecification, schema:AlJsonSchema} {
+        if ( reference.startsWith( "#/definitions/" ) ) {
+            const typeName = reference.substring( 14 );
+            if ( ! rootSchema || ! rootSchema.definitions || ! rootSchema.definitions.hasOwnProperty( typeName ) ) {
+                throw new Error( `Cannot resolve schema reference '${reference}'.` );
+            }
+            return { descriptor: rootSchema.definitions[typeName], schema: rootSchema };
+        }
+        const schema = this.getSchemaById( reference );
+        return { descriptor: schema, schema: schema };
+    }
+
+    /**
+     * Validates a value against a type descriptor (or the ID of a registered schema), and returns a list of errors.
+     */
+    protected collectErrors( cursor:any, typeDescriptor:AlJsonPropertyDescriptor|AlJsonTypeSpecification|string, jsonPath:string[], rootSchema?:AlJsonSchema ):string[] {
+        if ( typeof( typeDescriptor ) === 'string' ) {
+            rootSchema = this.getSchemaById( typeDescriptor );
+            typeDescriptor = rootSchema;
+        }
+        const descriptor = typeDescriptor;
+        if ( this.isPropertyDescriptor( descriptor ) && descriptor.$ref ) {
+            const reference = this.resolveReference( descriptor.$ref, rootSchema );
+            return this.collectErrors( cursor, reference.descriptor, jsonPath, reference.schema );
+        }
+        const path = jsonPath.join( "." );
+        const types = typeof( descriptor.type ) === 'string' ? [ descriptor.type ] : descriptor.type;
+        if ( types && ! types.find( type => this.isType( cursor, type ) ) ) {
+            return [ `Value at '${path}' was not of expected type '${types.join("|")}'` ];
+        }
+
+        let errors:string[] = [];
+        if ( this.isType( cursor, "object" ) ) {
+            const properties = descriptor.properties || {};
+            ( descriptor.required || [] ).forEach( property => {
+                if ( ! cursor.hasOwnProperty( property ) ) {
+                    errors.push( `Value at '${path}' is missing required property '${property}'` );
+                }
+            } );
+            Object.keys( cursor ).forEach( property => {
+                if ( properties.hasOwnProperty( property ) ) {
+                    errors = errors.concat( this.collectErrors( cursor[property], properties[property], jsonPath.concat( property ), rootSchema ) );
+                } else if ( descriptor.additionalProperties === false ) {
+                    errors.push( `Value at '${path}' has unexpected property '${property}'` );
+                } else if ( typeof( descriptor.additionalProperties ) === 'object' ) {
+                    errors = errors.concat( this.collectErrors( cursor[property], descriptor.additionalProperties, jsonPath.concat( property ), rootSchema ) );
+                }
+            } );
+        } else if ( Array.isArray( cursor ) && this.isPropertyDescriptor( descriptor ) && descriptor.items ) {
+            const items = descriptor.items;
+            cursor.forEach( ( item, index ) => {
+                errors = errors.concat( this.collectErrors( item, items, jsonPath.concat( index.toString() ), rootSchema ) );
+            } );
+        }
+        return errors;
+    }
+
+    /**
+     * Distinguishes property descriptors, which may have `$ref` and `items`, from type specifications, which may not.
+     */
+    protected isPropertyDescriptor( descriptor:AlJsonPropertyDescriptor|AlJsonTypeSpecification ):descriptor is AlJsonPropertyDescriptor {
+        return descriptor.hasOwnProperty( "$ref" ) || descriptor.hasOwnProperty( "items" );
+    }
+
+    protected isType( value:any, type:string ):boolean {
+        if ( type === 'array' ) {
+            return Array.isArray( value );
+        }
+        if ( type === 'object' ) {
+            return typeof( value ) === 'object' && value !== null && ! Array.isArray( value );
+        }
+        return typeof( value ) === type;
+    }
 }
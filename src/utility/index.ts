@@ -3,3 +3,4 @@ export { AlCabinet } from './al-cabinet';
 export { AlGlobalizer } from './al-globalizer';
 export * from './al-trigger.types';
 export { isPromiseLike } from './is-promise-like';
+export * from './al-micro-json-validator';
@@ -0,0 +1,58 @@
+import { expect } from 'chai';
+import { describe } from 'mocha';
+import { AlEntitlementExpressionError } from '../src/errors';
+import { AlEntitlementExpression, AlRoute } from '../src/locator';
+
+describe( 'AlEntitlementExpression', () => {
+
+    const entitlements = [ "cloud_defender", "cloud_insight", "log_manager" ];
+
+    it( "should evaluate AND, OR, and NOT with conventional precedence", () => {
+        expect( AlEntitlementExpression.evaluate( "cloud_defender", entitlements ) ).to.equal( true );
+        expect( AlEntitlementExpression.evaluate( "tmc", entitlements ) ).to.equal( false );
+        expect( AlEntitlementExpression.evaluate( "cloud_defender|cloud_insight&!tmc", entitlements ) ).to.equal( true );
+        expect( AlEntitlementExpression.evaluate( "tmc|cloud_insight&!log_manager", entitlements ) ).to.equal( false );
+        expect( AlEntitlementExpression.evaluate( "!!cloud_defender", entitlements ) ).to.equal( true );
+        expect( AlEntitlementExpression.evaluate( " cloud_defender & ! tmc ", entitlements ) ).to.equal( true );
+    } );
+
+    it( "should support grouping", () => {
+        expect( AlEntitlementExpression.evaluate( "(tmc|cloud_insight)&log_manager", entitlements ) ).to.equal( true );
+        expect( AlEntitlementExpression.evaluate( "!(cloud_defender|tmc)", entitlements ) ).to.equal( false );
+        expect( AlEntitlementExpression.evaluate( "((tmc))|((log_manager&cloud_insight))", entitlements ) ).to.equal( true );
+    } );
+
+    it( "should support wildcards", () => {
+        expect( AlEntitlementExpression.evaluate( "cloud_*", entitlements ) ).to.equal( true );
+        expect( AlEntitlementExpression.evaluate( "*_manager&!tmc*", entitlements ) ).to.equal( true );
+        expect( AlEntitlementExpression.evaluate( "cloud_*_plus", entitlements ) ).to.equal( false );
+        expect( AlEntitlementExpression.evaluate( "*", [] ) ).to.equal( false );
+    } );
+
+    it( "should list referenced entitlements", () => {
+        expect( AlEntitlementExpression.parse( "a|(b&!a)|c_*" ).getEntitlements() ).to.deep.equal( [ "a", "b", "c_*" ] );
+    } );
+
+    it( "should report syntax errors with their position", () => {
+        const attempt = ( expression:string ):AlEntitlementExpressionError => {
+            try {
+                AlEntitlementExpression.parse( expression );
+            } catch( e ) {
+                return e;
+            }
+            return null;
+        };
+        expect( attempt( "" ) ).to.be.an.instanceOf( AlEntitlementExpressionError );
+        expect( attempt( "cloud_defender|" ).position ).to.equal( 15 );
+        expect( attempt( "(cloud_defender|tmc" ).message ).to.contain( "Unclosed '('" );
+        expect( attempt( "cloud_defender)" ).position ).to.equal( 14 );
+        expect( attempt( "cloud defender" ).position ).to.equal( 6 );
+        expect( attempt( "cloud_defender&&tmc" ).position ).to.equal( 15 );
+    } );
+
+    it( "should be validated when routes are constructed", () => {
+        expect( () => new AlRoute( null, { caption: "Broken", visible: { rule: "any", conditions: [ { entitlements: "a|" } ] } } ) ).to.throw( AlEntitlementExpressionError );
+        expect( () => new AlRoute( null, { caption: "Broken", options: [ { visible: { entitlements: "(a" }, action: "somewhere" } ] } ) ).to.throw( AlEntitlementExpressionError );
+    } );
+
+} );
@@ -8,6 +8,9 @@ import {
     AlUnimplementedMethodError,
     AlNotFoundError,
     AlBadRequestError,
+    AlLocationTranslationError,
+    AlEntitlementExpressionError,
+    AlDataValidationError,
 } from '../src/errors';
 import * as sinon from 'sinon';
 
@@ -88,5 +91,36 @@ describe( `Errors`, () => {
             expect( error.message ).to.be.a("string" );
         } );
     } );
+    describe( 'AlLocationTranslationError', () => {
+        it( 'should instantiate as expected', () => {
+            const error = new AlLocationTranslationError( "Nowhere to go", "https://console.incidents.alertlogic.com", "no-equivalent", "cd17:incidents", { environment: "integration" } );
+
+            expect( error ).to.be.an.instanceOf( AlLocationTranslationError );
+            expect( error.message ).to.be.a("string" );
+            expect( error.reason ).to.equal( "no-equivalent" );
+            expect( error.locTypeId ).to.be.a("string" );
+        } );
+    } );
+    describe( 'AlEntitlementExpressionError', () => {
+        it( 'should instantiate as expected', () => {
+            const error = new AlEntitlementExpressionError( "Unexpected end of expression", "cloud_defender|", 15 );
+
+            expect( error ).to.be.an.instanceOf( AlEntitlementExpressionError );
+            expect( error.message ).to.be.a("string" );
+            expect( error.expression ).to.equal( "cloud_defender|" );
+            expect( error.position ).to.equal( 15 );
+        } );
+    } );
+    describe( 'AlDataValidationError', () => {
+        it( 'should instantiate as expected', () => {
+            const error = new AlDataValidationError( "The data is not valid", [ "Value at '' is missing required property 'uri'" ], "al-location-topology" );
+
+            expect( error ).to.be.an.instanceOf( AlDataValidationError );
+            expect( error ).not.to.be.an.instanceOf( AlResponseValidationError );
+            expect( error.errors.length ).to.equal( 1 );
+            expect( error.schemaId ).to.equal( "al-location-topology" );
+            expect( new AlDataValidationError( "Blahblahblah" ).errors ).to.deep.equal( [] );
+        } );
+    } );
 
 } );
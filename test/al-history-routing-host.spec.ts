@@ -0,0 +1,150 @@
+import { expect } from 'chai';
+import { describe } from 'mocha';
+import { AlHistoryRoutingHost, AlMemoryHistoryAdapter, AlRoute, AlRouteGuardEvent, AlRouteNavigationEvent, AlRouteTriggerEvent, AlLocatorService, AlLocation } from '../src/locator';
+
+describe( 'AlHistoryRoutingHost', () => {
+
+    let history:AlMemoryHistoryAdapter;
+    let host:AlHistoryRoutingHost;
+
+    beforeEach( () => {
+        AlLocatorService.setContext( { environment: "production", residency: "US" } );
+        AlLocatorService.setActingUri( "https://console.incidents.alertlogic.com" );
+        history = new AlMemoryHistoryAdapter( "https://console.incidents.alertlogic.com/#/incidents/2/ABCD?aaid=2&filter=open+only" );
+        host = new AlHistoryRoutingHost( {
+            name: "test",
+            description: "",
+            menus: {},
+            namedRoutes: {
+                summary: { caption: "Summary", action: { type: "link", location: AlLocation.IncidentsUI, path: "/#/summary/:accountId" } }
+            }
+        }, history );
+    } );
+
+    afterEach( () => {
+        host.dispose();
+    } );
+
+    it( "should extract route parameters from the query and from path patterns", () => {
+        expect( host.currentUrl ).to.equal( history.getUrl() );
+        expect( host.routeParameters ).to.deep.equal( { aaid: "2", filter: "open only" } );
+
+        host.addRoutePattern( "/#/summary/:accountId" );
+        host.addRoutePattern( "/#/incidents/:accountId/:incidentId" );
+        expect( host.routeParameters ).to.deep.equal( { aaid: "2", filter: "open only", accountId: "2", incidentId: "ABCD" } );
+
+        host.setRouteParameter( "locid", "defender-us-denver" );
+        history.push( "https://console.incidents.alertlogic.com/#/summary/3" );
+        history.go( -1 );
+        history.go( 1 );
+        expect( host.routeParameters ).to.deep.equal( { accountId: "3", locid: "defender-us-denver" } );
+    } );
+
+    it( "should keep malformed or partially encoded parameter values as they are", () => {
+        host.addRoutePattern( "/#/search/:term" );
+        history.push( "https://console.incidents.alertlogic.com/#/search/%E0?q=%E0&filter=a=b&token=abc%3D%3D&flag" );
+        history.go( -1 );
+        history.go( 1 );
+        expect( host.routeParameters ).to.deep.equal( { q: "%E0", filter: "a=b", token: "abc==", flag: "", term: "%E0" } );
+
+        const menu = new AlRoute( host, {
+            caption: "Menu",
+            children: [ { caption: "Search", action: { type: "link", location: AlLocation.IncidentsUI, path: "/#/search/:query" } } ]
+        } );
+        const match = host.applyRoute( menu );
+        expect( match.route ).to.equal( menu.children[0] );
+        expect( match.parameters ).to.deep.equal( { query: "%E0" } );
+        expect( host.routeParameters.query ).to.equal( "%E0" );
+    } );
+
+    it( "should look up named routes", () => {
+        expect( host.getRouteByName( "summary" ).caption ).to.equal( "Summary" );
+        expect( host.getRouteByName( "nonexistent" ) ).to.equal( undefined );
+        expect( host.getRouteByName( "hasOwnProperty" ) ).to.equal( undefined );
+    } );
+
+    it( "should extract route parameters from the route matching the current URL", () => {
+        const menu = new AlRoute( host, {
+            caption: "Menu",
+            children: [ { caption: "Incident", action: { type: "link", location: AlLocation.IncidentsUI, path: "/#/incidents/:accountId/:incidentId" } } ]
+        } );
+        const match = host.applyRoute( menu );
+        expect( match.route ).to.equal( menu.children[0] );
+        expect( host.routeParameters ).to.deep.equal( { aaid: "2", filter: "open only", accountId: "2", incidentId: "ABCD" } );
+
+        history.push( "https://console.incidents.alertlogic.com/#/summary" );
+        history.go( -1 );
+        history.go( 1 );
+        expect( host.routeParameters ).to.deep.equal( {} );
+        expect( host.applyRoute( menu ) ).to.equal( null );
+    } );
+
+    it( "should push links to the acting location onto the history, and navigate to others", () => {
+        const events:AlRouteNavigationEvent[] = [];
+        host.events.attach( AlRouteNavigationEvent, ( event:AlRouteNavigationEvent ) => events.push( event ) );
+        host.addRoutePattern( "/#/summary/:accountId" );
+        host.addRoutePattern( "/#/incidents/:accountId/:incidentId" );
+
+        new AlRoute( host, { caption: "Summary", action: "summary" } ).dispatch();
+        expect( host.currentUrl ).to.equal( "https://console.incidents.alertlogic.com/#/summary/2" );
+        expect( history.navigations.length ).to.equal( 0 );
+        expect( events.length ).to.equal( 1 );
+        expect( events[0].previousUrl ).to.equal( "https://console.incidents.alertlogic.com/#/incidents/2/ABCD?aaid=2&filter=open+only" );
+
+        host.dispatch( new AlRoute( host, { caption: "Summary", action: "summary" } ), { accountId: "5" } );
+        expect( host.currentUrl ).to.equal( "https://console.incidents.alertlogic.com/#/summary/5" );
+
+        AlRoute.link( host, AlLocation.OverviewUI, "/#/" ).dispatch();
+        expect( history.navigations ).to.deep.equal( [ "https://console.overview.alertlogic.com/#" ] );
+    } );
+
+    it( "should publish triggers and invoke callbacks", () => {
+        const triggers:AlRouteTriggerEvent[] = [];
+        host.events.attach( AlRouteTriggerEvent, ( event:AlRouteTriggerEvent ) => triggers.push( event ) );
+        const route = new AlRoute( host, { caption: "Trigger", action: { type: "trigger", trigger: "Navigation.Open" } } );
+        host.dispatch( route, { panel: "help" } );
+        expect( triggers.length ).to.equal( 1 );
+        expect( triggers[0].triggerName ).to.equal( "Navigation.Open" );
+        expect( triggers[0].route ).to.equal( route );
+        expect( triggers[0].parameters ).to.deep.equal( { panel: "help" } );
+
+        let invoked:AlRoute = null;
+        const callbackRoute = new AlRoute( host, { caption: "Callback" } );
+        callbackRoute.setCallback( ( target:AlRoute ) => invoked = target );
+        callbackRoute.dispatch();
+        expect( invoked ).to.equal( callbackRoute );
+    } );
+
+    it( "should consult its guards before dispatching routes, and publish their outcomes", async () => {
+        const outcomes:AlRouteGuardEvent[] = [];
+        host.events.attach( AlRouteGuardEvent, ( event:AlRouteGuardEvent ) => outcomes.push( event ) );
+        host.addRoutePattern( "/#/summary/:accountId" );
+        host.addRoutePattern( "/#/incidents/:accountId/:incidentId" );
+        const unregister = host.addGuard( route => route.caption !== "Settings" || { outcome: "redirect", redirect: "summary", reason: "Not entitled" } );
+
+        const settings = AlRoute.link( host, AlLocation.IncidentsUI, "/#/settings/:accountId", "Settings" );
+        const outcome = await settings.dispatch();
+        expect( outcome.outcome ).to.equal( "redirect" );
+        expect( outcome.redirects ).to.deep.equal( [ "summary" ] );
+        expect( outcome.reason ).to.equal( "Not entitled" );
+        expect( host.currentUrl ).to.equal( "https://console.incidents.alertlogic.com/#/summary/2" );
+        expect( outcomes.length ).to.equal( 1 );
+        expect( outcomes[0].outcome ).to.equal( outcome );
+
+        unregister();
+        await settings.dispatch();
+        expect( host.currentUrl ).to.equal( "https://console.incidents.alertlogic.com/#/settings/2" );
+        expect( outcomes[1].outcome.outcome ).to.equal( "allow" );
+    } );
+
+    it( "should manage bookmarks and evaluate entitlements", () => {
+        const route = new AlRoute( host, { caption: "Bookmarked", bookmarkId: "bookmark", visible: { entitlements: "cloud_*" } } );
+        expect( host.getBookmark( "bookmark" ) ).to.equal( route );
+        expect( route.visible ).to.equal( false );
+        host.entitlements = [ "cloud_defender" ];
+        route.refresh();
+        expect( route.visible ).to.equal( true );
+        expect( host.evaluate( { entitlements: "!cloud_defender" } ) ).to.equal( false );
+    } );
+
+} );
@@ -0,0 +1,94 @@
+import { expect } from 'chai';
+import { describe } from 'mocha';
+import { AlInsightLocations, AlInsightLocationRegistry, AlInsightLocationDecision, AlLocatorMatrix, AlLocationDictionary } from '../src/locator';
+
+describe( 'AlInsightLocationRegistry', () => {
+
+    let registry:AlInsightLocationRegistry;
+
+    beforeEach( () => {
+        registry = new AlInsightLocationRegistry( AlInsightLocations );
+    } );
+
+    it( "should select the first accessible alternative by default", () => {
+        let decision = registry.select( "insight-us-virginia", [ "defender-us-ashburn", "defender-us-denver" ] );
+        expect( decision.selected ).to.equal( "defender-us-denver" );
+        expect( decision.reason ).to.equal( "accessible" );
+
+        decision = registry.select( "insight-us-virginia", [ "defender-uk-newport" ] );
+        expect( decision.selected ).to.equal( "defender-us-denver" );
+        expect( decision.reason ).to.equal( "default" );
+
+        expect( registry.select( "defender-us-denver", [] ) ).to.equal( undefined );
+        expect( registry.select( "insight-mars-olympus", [] ) ).to.equal( undefined );
+    } );
+
+    it( "should allow locations to be added and overridden at runtime", () => {
+        registry.register( {
+            "defender-us-chicago": { residency: "US", residencyCaption: "UNITED STATES", logicalRegion: "us-central-1" }
+        } );
+        registry.override( "insight-us-virginia", { alternatives: [ "defender-us-chicago", "defender-us-denver" ] } );
+        expect( registry.has( "defender-us-chicago" ) ).to.equal( true );
+        expect( registry.get( "insight-us-virginia" ).residency ).to.equal( "US" );
+        expect( registry.select( "insight-us-virginia", [ "defender-us-denver" ] ).selected ).to.equal( "defender-us-denver" );
+        expect( () => registry.override( "insight-mars-olympus", { residency: "MARS" } ) ).to.throw();
+        expect( AlInsightLocations["insight-us-virginia"].alternatives ).to.deep.equal( [ "defender-us-denver", "defender-us-ashburn" ] );
+
+        registry.reset();
+        expect( registry.has( "defender-us-chicago" ) ).to.equal( false );
+    } );
+
+    it( "should apply ranked fallback rules", () => {
+        const latencies:{[locationId:string]:number} = { "defender-us-denver": 80, "defender-us-ashburn": 20 };
+        registry.override( "insight-us-virginia", { alternatives: [ "defender-us-denver", "defender-us-ashburn", "defender-uk-newport" ] } );
+        registry.addRule( AlInsightLocationRegistry.byLatency( latencies ) );
+
+        let decision = registry.select( "insight-us-virginia", [ "defender-us-denver", "defender-us-ashburn" ] );
+        expect( decision.candidates ).to.deep.equal( [ "defender-us-ashburn", "defender-us-denver", "defender-uk-newport" ] );
+        expect( decision.selected ).to.equal( "defender-us-ashburn" );
+
+        registry.addRule( AlInsightLocationRegistry.byPreference( [ "defender-uk-newport", "defender-us-denver" ], -1 ) );
+        decision = registry.select( "insight-us-virginia", [ "defender-us-denver", "defender-us-ashburn" ] );
+        expect( decision.candidates ).to.deep.equal( [ "defender-uk-newport", "defender-us-denver", "defender-us-ashburn" ] );
+        expect( decision.selected ).to.equal( "defender-us-denver" );
+
+        registry.addRule( AlInsightLocationRegistry.residencyLock() );
+        decision = registry.select( "insight-us-virginia", [] );
+        expect( decision.candidates ).to.deep.equal( [ "defender-us-denver", "defender-us-ashburn" ] );
+        expect( decision.selected ).to.equal( "defender-us-denver" );
+        expect( decision.reason ).to.equal( "default" );
+
+        registry.clearRules();
+        registry.addRule( AlInsightLocationRegistry.residencyLock( "MARS" ) );
+        decision = registry.select( "insight-us-virginia", [ "defender-us-denver" ] );
+        expect( decision.selected ).to.equal( "insight-us-virginia" );
+        expect( decision.reason ).to.equal( "unchanged" );
+    } );
+
+    it( "should rank rules without an explicit rank after existing rules", () => {
+        registry.override( "insight-us-virginia", { alternatives: [ "defender-us-denver", "defender-us-ashburn" ] } );
+        registry.addRule( AlInsightLocationRegistry.byPreference( [ "defender-us-denver" ], 5 ) );
+        registry.addRule( AlInsightLocationRegistry.byLatency( { "defender-us-denver": 80, "defender-us-ashburn": 20 } ) );
+        expect( registry.select( "insight-us-virginia", [] ).selected ).to.equal( "defender-us-denver" );
+
+        registry.clearRules();
+        registry.addRule( AlInsightLocationRegistry.byLatency( { "defender-us-denver": 80, "defender-us-ashburn": 20 }, 1 ) );
+        registry.addRule( AlInsightLocationRegistry.byPreference( [ "defender-us-denver" ], 1 ) );
+        expect( registry.select( "insight-us-virginia", [] ).selected ).to.equal( "defender-us-ashburn" );
+    } );
+
+    it( "should report normalization decisions through a hook", () => {
+        const locator = new AlLocatorMatrix( AlLocationDictionary, false );
+        const decisions:AlInsightLocationDecision[] = [];
+        locator.insightLocations.onDecision = decision => decisions.push( decision );
+        locator.insightLocations.addRule( AlInsightLocationRegistry.byPreference( [ "defender-us-ashburn" ] ) );
+        locator.setContext( { insightLocationId: "insight-us-virginia", accessible: [ "defender-us-denver", "defender-us-ashburn" ] } );
+
+        expect( decisions.length ).to.equal( 1 );
+        expect( decisions[0].requested ).to.equal( "insight-us-virginia" );
+        expect( decisions[0].selected ).to.equal( "defender-us-ashburn" );
+        expect( locator.getContext().insightLocationId ).to.equal( "defender-us-ashburn" );
+        expect( locator.fork( { environment: "integration" } ).insightLocations ).to.equal( locator.insightLocations );
+    } );
+
+} );
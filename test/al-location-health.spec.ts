@@ -0,0 +1,91 @@
+import { expect } from 'chai';
+import { describe } from 'mocha';
+import { AlLocatorMatrix, AlLocationDictionary, AlLocation, AlLocationHealthRegistry, AlLocatorFailoverEvent } from '../src/locator';
+
+describe( 'AlLocationHealthRegistry', () => {
+
+    let clock:{ now():number, time:number };
+    let registry:AlLocationHealthRegistry;
+
+    beforeEach( () => {
+        clock = { time: 1000, now: () => clock.time };
+        registry = new AlLocationHealthRegistry( clock );
+    } );
+
+    it( "should track degraded nodes until their TTL expires", () => {
+        expect( registry.isEmpty() ).to.equal( true );
+        registry.reportDegraded( "https://console.alertlogic.net", 30, "timeout" );
+        expect( registry.isDegraded( "https://console.alertlogic.net" ) ).to.equal( true );
+        expect( registry.isDegraded( { locTypeId: AlLocation.LegacyUI, uri: "https://console.alertlogic.net" } ) ).to.equal( true );
+        expect( registry.list() ).to.deep.equal( [ { uri: "https://console.alertlogic.net", reason: "timeout", expires: 31000 } ] );
+
+        clock.time = 31000;
+        expect( registry.isDegraded( "https://console.alertlogic.net" ) ).to.equal( false );
+        expect( registry.isEmpty() ).to.equal( true );
+    } );
+
+    it( "should forget nodes reported as healthy", () => {
+        registry.reportDegraded( "https://console.alertlogic.net", 30 );
+        const version = registry.version;
+        registry.reportHealthy( "https://console.alertlogic.net" );
+        expect( registry.isDegraded( "https://console.alertlogic.net" ) ).to.equal( false );
+        expect( registry.version ).to.equal( version + 1 );
+        registry.reportHealthy( "https://console.alertlogic.net" );
+        expect( registry.version ).to.equal( version + 1 );
+    } );
+
+} );
+
+describe( 'AlLocatorMatrix failover', () => {
+
+    let locator:AlLocatorMatrix;
+    let events:AlLocatorFailoverEvent[];
+
+    beforeEach( () => {
+        locator = new AlLocatorMatrix( AlLocationDictionary, false, { environment: "production", residency: "US" } );
+        events = [];
+        locator.events.attach( "AlLocatorFailover", ( event:AlLocatorFailoverEvent ) => events.push( event ) );
+    } );
+
+    it( "should skip degraded nodes in favor of an equivalent alternative", () => {
+        expect( locator.resolveURL( AlLocation.LegacyUI ) ).to.equal( "https://console.alertlogic.net" );
+        locator.health.reportDegraded( "https://console.alertlogic.net", 60 );
+        expect( locator.resolveURL( AlLocation.LegacyUI ) ).to.equal( "https://console.clouddefender.alertlogic.com" );
+        expect( locator.resolveURL( AlLocation.LegacyUI ) ).to.equal( "https://console.clouddefender.alertlogic.com" );
+
+        expect( events.length ).to.equal( 1 );
+        expect( events[0].locTypeId ).to.equal( AlLocation.LegacyUI );
+        expect( events[0].degraded.uri ).to.equal( "https://console.alertlogic.net" );
+        expect( events[0].alternative.uri ).to.equal( "https://console.clouddefender.alertlogic.com" );
+
+        locator.health.reportHealthy( "https://console.alertlogic.net" );
+        expect( locator.resolveURL( AlLocation.LegacyUI ) ).to.equal( "https://console.alertlogic.net" );
+    } );
+
+    it( "should explain failovers without recording or publishing them", () => {
+        locator.health.reportDegraded( "https://console.alertlogic.net", 60 );
+        expect( locator.explainNode( AlLocation.LegacyUI ).node.uri ).to.equal( "https://console.clouddefender.alertlogic.com" );
+        expect( events.length ).to.equal( 0 );
+        expect( locator.resolveURL( AlLocation.LegacyUI ) ).to.equal( "https://console.clouddefender.alertlogic.com" );
+        expect( events.length ).to.equal( 1 );
+    } );
+
+    it( "should use a degraded node if no equivalent alternative is healthy", () => {
+        locator.health.reportDegraded( "https://console.alertlogic.net", 60 );
+        locator.health.reportDegraded( "https://console.clouddefender.alertlogic.com", 60 );
+        expect( locator.resolveURL( AlLocation.LegacyUI ) ).to.equal( "https://console.alertlogic.net" );
+
+        locator.setContext( { residency: "EMEA" } );
+        locator.health.reportDegraded( "https://console.alertlogic.co.uk", 60 );
+        expect( locator.resolveURL( AlLocation.LegacyUI ) ).to.equal( "https://console.alertlogic.co.uk" );
+        expect( events.length ).to.equal( 0 );
+    } );
+
+    it( "should share health with forked locators", () => {
+        const child = locator.fork();
+        expect( child.health ).to.equal( locator.health );
+        locator.health.reportDegraded( "https://console.alertlogic.net", 60 );
+        expect( child.resolveURL( AlLocation.LegacyUI ) ).to.equal( "https://console.clouddefender.alertlogic.com" );
+    } );
+
+} );
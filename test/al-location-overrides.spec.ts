@@ -0,0 +1,100 @@
+import { expect } from 'chai';
+import { describe } from 'mocha';
+import { AlLocation, AlLocationDictionary, AlLocatorMatrix, AlLocationOverrides, AlLocationOverrideService, AlLocatorService, AlNodeEnvironmentAdapter } from '../src/locator';
+import { AlCabinet } from '../src/utility';
+
+describe( 'AlLocationOverrides', () => {
+
+    let locator:AlLocatorMatrix;
+    let cabinet:AlCabinet;
+    let overrides:AlLocationOverrides;
+
+    beforeEach( () => {
+        locator = new AlLocatorMatrix( AlLocationDictionary, "https://console.overview.alertlogic.com" );
+        cabinet = AlCabinet.local( "location_overrides_test" );
+        cabinet.destroy();
+        overrides = new AlLocationOverrides( locator, cabinet );
+    } );
+
+    it( "should pin locations to custom URIs for a chosen environment and residency", () => {
+        overrides.set( AlLocation.IncidentsUI, "http://localhost:8001", "production", "US" );
+        expect( locator.resolveURL( AlLocation.IncidentsUI, "/#/" ) ).to.equal( "http://localhost:8001/#/" );
+        expect( locator.resolveURL( AlLocation.IncidentsUI, "/#/", { residency: "EMEA" } ) ).to.equal( "https://console.incidents.alertlogic.co.uk/#/" );
+        expect( locator.getNode( AlLocation.IncidentsUI ).keyword ).to.equal( undefined );
+
+        overrides.set( AlLocation.SearchUI, "http://localhost:4220" );
+        expect( locator.resolveURL( AlLocation.SearchUI, "/#/", { residency: "EMEA" } ) ).to.equal( "http://localhost:4220/#/" );
+        expect( locator.resolveURL( AlLocation.SearchUI, "/#/", { environment: "integration" } ) ).to.equal( "http://localhost:4220/#/" );
+
+        expect( overrides.list().map( override => `${override.locTypeId}:${override.environment}:${override.residency}:${override.expires}` ) ).to.deep.equal( [
+            `${AlLocation.IncidentsUI}:production:US:0`,
+            `${AlLocation.SearchUI}:undefined:undefined:0`
+        ] );
+    } );
+
+    it( "should reapply persisted overrides to new locators", () => {
+        overrides.set( AlLocation.IncidentsUI, "http://localhost:8001", "production" );
+        const reloaded = new AlLocatorMatrix( AlLocationDictionary, "https://console.overview.alertlogic.com" );
+        expect( reloaded.resolveURL( AlLocation.IncidentsUI ) ).to.equal( "https://console.incidents.alertlogic.com" );
+        const applied = new AlLocationOverrides( reloaded, cabinet ).apply();
+        expect( applied.length ).to.equal( 1 );
+        expect( reloaded.resolveURL( AlLocation.IncidentsUI ) ).to.equal( "http://localhost:8001" );
+        expect( AlLocationOverrideService.locator ).to.equal( AlLocatorService );
+    } );
+
+    it( "should clear overrides and restore the original nodes", () => {
+        overrides.set( AlLocation.IncidentsUI, "http://localhost:8001", "production" );
+        overrides.set( AlLocation.SearchUI, "http://localhost:4220", "production" );
+        overrides.clear( AlLocation.IncidentsUI );
+        expect( locator.resolveURL( AlLocation.IncidentsUI ) ).to.equal( "https://console.incidents.alertlogic.com" );
+        expect( locator.resolveURL( AlLocation.SearchUI ) ).to.equal( "http://localhost:4220" );
+        expect( overrides.list().length ).to.equal( 1 );
+
+        overrides.clear();
+        expect( locator.resolveURL( AlLocation.SearchUI ) ).to.equal( "https://console.search.alertlogic.com" );
+        expect( overrides.list().length ).to.equal( 0 );
+    } );
+
+    it( "should prefer the most specific of overlapping overrides, and restore the original state when they are cleared", () => {
+        const original = locator.toSnapshot();
+        for ( let cycle = 0; cycle < 3; cycle++ ) {
+            overrides.set( AlLocation.IncidentsUI, "https://incidents.developer.example.com", "production", "US" );
+            overrides.set( AlLocation.IncidentsUI, "https://shared.developer.example.com" );
+            expect( locator.resolveURL( AlLocation.IncidentsUI ) ).to.equal( "https://incidents.developer.example.com" );
+            expect( locator.resolveURL( AlLocation.IncidentsUI, undefined, { residency: "EMEA" } ) ).to.equal( "https://shared.developer.example.com" );
+            expect( locator.explainNode( AlLocation.IncidentsUI ).override.uri ).to.equal( "https://incidents.developer.example.com" );
+            expect( locator.getNodeByURI( "https://incidents.developer.example.com/#/" ) ).to.equal( undefined );
+
+            overrides.clear();
+            expect( overrides.list() ).to.deep.equal( [] );
+            expect( locator.resolveURL( AlLocation.IncidentsUI ) ).to.equal( "https://console.incidents.alertlogic.com" );
+            expect( locator.resolveURL( AlLocation.IncidentsUI, undefined, { residency: "EMEA" } ) ).to.equal( "https://console.incidents.alertlogic.co.uk" );
+            expect( locator.toSnapshot() ).to.deep.equal( original );
+        }
+    } );
+
+    it( "should expire overrides according to the locator's clock", () => {
+        const adapter = new AlNodeEnvironmentAdapter();
+        let now = Date.now();
+        adapter.now = () => now;
+        const clocked = new AlLocatorMatrix( AlLocationDictionary, "https://console.overview.alertlogic.com", undefined, adapter );
+        const override = new AlLocationOverrides( clocked, cabinet ).set( AlLocation.IncidentsUI, "https://incidents.developer.example.com", undefined, undefined, 60 );
+        expect( override.expires ).to.equal( now + 60000 );
+        expect( clocked.resolveURL( AlLocation.IncidentsUI ) ).to.equal( "https://incidents.developer.example.com" );
+        now += 60000;
+        expect( clocked.resolveURL( AlLocation.IncidentsUI ) ).to.equal( "https://console.incidents.alertlogic.com" );
+        expect( clocked.overrides.isEmpty() ).to.equal( true );
+    } );
+
+    it( "should not list or reapply expired overrides", () => {
+        const override = overrides.set( AlLocation.IncidentsUI, "http://localhost:8001", "production", undefined, 60 );
+        expect( override.expires ).to.be.above( Date.now() );
+        cabinet.data[`${AlLocation.IncidentsUI}|production|*`].expires = Date.now() - 1000;
+        expect( overrides.list() ).to.deep.equal( [] );
+
+        const reloaded = new AlLocatorMatrix( AlLocationDictionary, "https://console.overview.alertlogic.com" );
+        expect( new AlLocationOverrides( reloaded, cabinet ).apply() ).to.deep.equal( [] );
+        expect( reloaded.resolveURL( AlLocation.IncidentsUI ) ).to.equal( "https://console.incidents.alertlogic.com" );
+    } );
+
+} );
@@ -0,0 +1,126 @@
+import { expect } from 'chai';
+import { describe } from 'mocha';
+import { AlLocation, AlLocatorMatrix, AlLocationTopologyLoader, AlLocationTopologyDocument } from '../src/locator';
+import { AlDataValidationError } from '../src/errors';
+
+describe( 'AlLocationTopologyLoader', () => {
+
+    let topology:AlLocationTopologyDocument;
+
+    beforeEach( () => {
+        topology = {
+            environments: [ "production", "beta-navigation", "beta-nav-prod", "production-staging", "integration", "development" ],
+            residencies: [ "US", "EMEA" ],
+            templates: {
+                ui: [
+                    { environment: "production|beta-nav-prod", residency: "US", uri: "https://console.${appCode}.alertlogic.com" },
+                    { environment: "production", residency: "EMEA", uri: "https://console.${appCode}.alertlogic.co.uk" },
+                    { environment: "beta-navigation", residency: "US", uri: "https://${appCode}-beta-navigation.ui-dev.product.dev.alertlogic.com" },
+                    { environment: "beta-nav-prod", residency: "US", uri: "https://${appCode}-beta-nav-prod.ui-dev.product.dev.alertlogic.com" },
+                    { environment: "production-staging", residency: "US", uri: "https://${appCode}-production-staging-us.ui-dev.product.dev.alertlogic.com" },
+                    { environment: "production-staging", residency: "EMEA", uri: "https://${appCode}-production-staging-uk.ui-dev.product.dev.alertlogic.com" },
+                    {
+                        environment: "integration",
+                        uri: "https://console.${appCode}.product.dev.alertlogic.com",
+                        aliases: [
+                            "https://${appCode}.ui-dev.product.dev.alertlogic.com",
+                            "https://${appCode}-pr-{prNumber}.ui-dev.product.dev.alertlogic.com",
+                            "https://${appCode}-*.ui-dev.product.dev.alertlogic.com",
+                            "https://*.o3-${appCode}.product.dev.alertlogic.com"
+                        ]
+                    },
+                    { environment: "development", uri: "http://localhost:${devPort}", keyword: "localhost" }
+                ]
+            },
+            locations: [
+                {
+                    locTypeId: AlLocation.IncidentsUI,
+                    template: "ui",
+                    variables: { appCode: "incidents", devPort: 8001 },
+                    defaults: { keyword: "${appCode}", hashRouting: true }
+                },
+                {
+                    locTypeId: AlLocation.DashboardsUI,
+                    template: "ui",
+                    variables: { appCode: "dashboards", devPort: 7001 },
+                    defaults: { keyword: "${appCode}", hashRouting: true },
+                    overrides: [
+                        { environment: "integration", uri: "https://dashboards.ui-dev.product.dev.alertlogic.com", aliases: [] },
+                        { environment: "production", residency: "EMEA", uri: "https://console.dashboards.alertlogic.eu", data: { note: "${unsubstituted}" } }
+                    ]
+                },
+                {
+                    locTypeId: AlLocation.Auth0,
+                    nodes: [
+                        { environment: "production", uri: "alertlogic.auth0.com" },
+                        { environment: "integration|development", uri: "alertlogic-integration.auth0.com" }
+                    ]
+                }
+            ]
+        };
+    } );
+
+    it( "should expand templates into the same locations as hand-written descriptors", () => {
+        const descriptors = AlLocationTopologyLoader.load( topology ).filter( descriptor => descriptor.locTypeId === AlLocation.IncidentsUI );
+        const handWritten = AlLocation.uiNode( AlLocation.IncidentsUI, 'incidents', 8001 );
+        const expected:string[] = [];
+        handWritten.forEach( node => {
+            ( node.environment || 'production' ).split( "|" ).forEach( environment => expected.push( `${environment}:${node.residency}:${node.uri}:${node.keyword}:${node.hashRouting}` ) );
+        } );
+        expect( descriptors.map( node => `${node.environment}:${node.residency}:${node.uri}:${node.keyword}:${node.hashRouting}` ).sort() ).to.deep.equal( expected.sort() );
+        expect( descriptors.find( node => node.environment === 'integration' ).aliases ).to.deep.equal( handWritten.find( node => node.environment === 'integration' ).aliases );
+    } );
+
+    it( "should apply per-location overrides and explicit nodes", () => {
+        const descriptors = AlLocationTopologyLoader.load( JSON.stringify( topology ) );
+        const locator = new AlLocatorMatrix( descriptors, "https://console.incidents.alertlogic.com" );
+
+        expect( locator.resolveURL( AlLocation.DashboardsUI, "/#/", { environment: "integration" } ) ).to.equal( "https://dashboards.ui-dev.product.dev.alertlogic.com/#/" );
+        expect( locator.resolveURL( AlLocation.DashboardsUI, "/#/", { environment: "production", residency: "EMEA" } ) ).to.equal( "https://console.dashboards.alertlogic.eu/#/" );
+        expect( locator.resolveURL( AlLocation.DashboardsUI, "/#/", { environment: "production", residency: "US" } ) ).to.equal( "https://console.dashboards.alertlogic.com/#/" );
+        expect( locator.getNode( AlLocation.DashboardsUI, { environment: "production", residency: "EMEA" } ).data ).to.deep.equal( { note: "${unsubstituted}" } );
+        expect( locator.resolveURL( AlLocation.Auth0, undefined, { environment: "development" } ) ).to.equal( "https://alertlogic-integration.auth0.com" );
+
+        const node = locator.getNodeByURI( "https://incidents-pr-12.ui-dev.product.dev.alertlogic.com/#/" );
+        expect( node.locTypeId ).to.equal( AlLocation.IncidentsUI );
+        expect( node.environment ).to.equal( "integration" );
+    } );
+
+    it( "should reject documents that do not match the schema", () => {
+        const malformed:any = topology;
+        malformed.locations[0].variables = { appCode: true };
+        malformed.locations[1].nodes = [ { environment: "production" } ];
+        malformed.locations[2].typo = "oops";
+        delete malformed.residencies;
+        try {
+            AlLocationTopologyLoader.load( malformed );
+            expect( true ).to.equal( false );
+        } catch( e ) {
+            expect( e ).to.be.an.instanceOf( AlDataValidationError );
+            expect( e.errors ).to.deep.equal( [
+                "Value at '' is missing required property 'residencies'",
+                "Value at '.locations.0.variables.appCode' was not of expected type 'string|number'",
+                "Value at '.locations.1.nodes.0' is missing required property 'uri'",
+                "Value at '.locations.2' has unexpected property 'typo'"
+            ] );
+        }
+    } );
+
+    it( "should reject references to undeclared environments, residencies, templates, and variables", () => {
+        topology.environments = topology.environments.filter( environment => environment !== "beta-nav-prod" );
+        topology.residencies = [ "US" ];
+        topology.locations[0].variables = { appCode: "incidents" };
+        topology.locations[2].template = "api";
+        try {
+            AlLocationTopologyLoader.load( topology );
+            expect( true ).to.equal( false );
+        } catch( e ) {
+            expect( e ).to.be.an.instanceOf( AlDataValidationError );
+            expect( e.errors ).to.include( "Location at '.locations.0' refers to undeclared environment 'beta-nav-prod'" );
+            expect( e.errors ).to.include( "Location at '.locations.0' refers to undeclared residency 'EMEA'" );
+            expect( e.errors ).to.include( "Location at '.locations.0' refers to undefined variable 'devPort'" );
+            expect( e.errors ).to.include( "Location at '.locations.2' refers to undefined template 'api'" );
+        }
+    } );
+
+} );
@@ -0,0 +1,139 @@
+import { expect } from 'chai';
+import { describe } from 'mocha';
+import { AlLocationDescriptor, AlLocationDictionary, AlLocationURIIndex, AlLocationURIIndexProbe } from '../src/locator';
+
+/**
+ * This is the keyword-ordered linear scan that AlLocationURIIndex replaced.  It is retained here as a reference implementation, so that
+ * the index can be proven to select exactly the same match expression for any given URI.
+ */
+class LinearURIScan
+{
+    public tested = 0;                  //  The number of match expressions tested by all lookups
+
+    protected uriMap:{[keyword:string]:{location:AlLocationDescriptor, matchExpression:string, matcher?:RegExp}[]} = {};
+
+    constructor( nodes:AlLocationDescriptor[] ) {
+        nodes.forEach( baseNode => {
+            const environments:string[] = typeof( baseNode.environment ) !== 'undefined' ? baseNode.environment.split("|") : [ 'production' ];
+            environments.forEach( environment => {
+                const node = Object.assign( {}, baseNode, { environment } );
+                const keyword = node.keyword || node.uri;
+                if ( ! this.uriMap.hasOwnProperty( keyword ) ) {
+                    this.uriMap[keyword] = [];
+                }
+                this.uriMap[keyword].push( { location: node, matchExpression: node.uri } );
+                ( node.aliases || [] ).forEach( alias => this.uriMap[keyword].push( { location: node, matchExpression: alias } ) );
+            } );
+        } );
+        Object.values( this.uriMap ).forEach( candidates => {
+            candidates.sort( ( a, b ) => ( a.location.weight || 0 ) - ( b.location.weight || 0 ) );
+        } );
+    }
+
+    find( targetURI:string ) {
+        let result:{location:AlLocationDescriptor, matchExpression:string}|undefined = undefined;
+        Object.entries( this.uriMap ).find( ( [ keyword, candidates ] ) => {
+            if ( targetURI.includes( keyword ) ) {
+                result = candidates.find( candidate => {
+                    this.tested++;
+                    if ( targetURI.startsWith( candidate.matchExpression ) ) {
+                        return true;
+                    }
+                    if ( ! candidate.matcher ) {
+                        candidate.matcher = new RegExp( AlLocationURIIndex.escapeLocationPattern( candidate.matchExpression ) );
+                    }
+                    return candidate.matcher.test( targetURI );
+                } );
+            }
+            return !! result;
+        } );
+        return result;
+    }
+}
+
+describe( 'AlLocationURIIndex', () => {
+
+    const nodes:AlLocationDescriptor[] = JSON.parse( JSON.stringify( AlLocationDictionary ) );
+    const reference = new LinearURIScan( nodes );
+    const index = new AlLocationURIIndex();
+    const sampleURIs:string[] = [];
+
+    before( () => {
+        nodes.forEach( baseNode => {
+            const environments:string[] = typeof( baseNode.environment ) !== 'undefined' ? baseNode.environment.split("|") : [ 'production' ];
+            environments.forEach( environment => {
+                const node = Object.assign( {}, baseNode, { environment } );
+                const keyword = node.keyword || node.uri;
+                index.add( node, node.uri, keyword );
+                ( node.aliases || [] ).forEach( alias => index.add( node, alias, keyword ) );
+            } );
+            [ baseNode.uri, ...( baseNode.aliases || [] ) ].forEach( pattern => {
+                const uri = pattern.replace( /\*/g, "pr-42" ).replace( /\{[a-zA-Z0-9_]+\}/g, "42" );
+                sampleURIs.push( uri, `${uri}/`, `${uri}/#/some/path/12345678?aaid=2&locid=defender-us-denver`, `https://${uri}/#/protocolless` );
+            } );
+        } );
+        index.rebuild();
+        sampleURIs.push( "https://lmgtfy.com/?q=cache+miss",
+                         "http://web.archive.org/web/20090814040542/http://blog.voidblossom.com/2008/12/15/winter-festivities-the-milk-of-human-crankiness/",
+                         "https://console.search.alertlogic.com/#/overview",
+                         "https://console.overview.alertlogic.com/#/search/incidents",
+                         "https://12.o3-search.product.dev.alertlogic.com",
+                         "https://remediations-pr-15.ui-dev.product.dev.alertlogic.com",
+                         "http://localhost:9999/#/unrecognized",
+                         "https://console.incidents.alertlogic.com:443/#/",
+                         "https://console.search.alertlogic.co.uk:8443/#/search",
+                         "https://remediations-pr-15.ui-dev.product.dev.alertlogic.com:443/#/",
+                         "https://12.o3-search.product.dev.alertlogic.com:443" );
+    } );
+
+    it( "should select the same match expression as a linear scan for every URI", () => {
+        sampleURIs.forEach( uri => {
+            const expected = reference.find( uri );
+            const actual = index.find( uri );
+            if ( ! expected ) {
+                expect( actual, uri ).to.equal( undefined );
+            } else {
+                expect( actual, uri ).to.be.an( "object" );
+                expect( actual.matchExpression, uri ).to.equal( expected.matchExpression );
+                expect( actual.location.locTypeId, uri ).to.equal( expected.location.locTypeId );
+                expect( actual.location.environment, uri ).to.equal( expected.location.environment );
+                expect( actual.location.residency, uri ).to.equal( expected.location.residency );
+            }
+        } );
+    } );
+
+    it( "should match URIs with explicit ports against match expressions for the bare host", () => {
+        expect( index.find( "https://console.incidents.alertlogic.com:443/#/" ).location.locTypeId ).to.equal( "cd17:incidents" );
+        expect( index.find( "https://remediations-pr-15.ui-dev.product.dev.alertlogic.com:443/#/" ).location.locTypeId ).to.equal( "cd17:remediations" );
+    } );
+
+    it( "should honor weights and keyword order when ranking matches", () => {
+        const weighted = new AlLocationURIIndex();
+        const light = { locTypeId: "light", uri: "https://shared.alertlogic.com", weight: 1 };
+        const heavy = { locTypeId: "heavy", uri: "https://shared.alertlogic.com", weight: 10 };
+        weighted.add( heavy, heavy.uri, "shared" );
+        weighted.add( light, light.uri, "shared" );
+        weighted.rebuild();
+        expect( weighted.find( "https://shared.alertlogic.com/#/" ).location.locTypeId ).to.equal( "light" );
+
+        const ordered = new AlLocationURIIndex();
+        ordered.add( { locTypeId: "first", uri: "https://*.alertlogic.com" }, "https://*.alertlogic.com", "alertlogic" );
+        ordered.add( { locTypeId: "second", uri: "https://app.alertlogic.com" }, "https://app.alertlogic.com", "app" );
+        ordered.rebuild();
+        expect( ordered.find( "https://app.alertlogic.com" ).location.locTypeId ).to.equal( "first" );
+    } );
+
+    it( "should test fewer match expressions than a linear scan", () => {
+        reference.tested = 0;
+        let indexedTests = 0;
+        sampleURIs.forEach( uri => {
+            const probes:AlLocationURIIndexProbe[] = [];
+            const expected = reference.find( uri );
+            const actual = index.find( uri, probes );
+            expect( actual ? actual.matchExpression : undefined, uri ).to.equal( expected ? expected.matchExpression : undefined );
+            indexedTests += probes.reduce( ( count, probe ) => count + probe.tested.length, 0 );
+        } );
+        expect( indexedTests ).to.be.below( reference.tested );
+    } );
+
+} );
@@ -0,0 +1,56 @@
+import { expect } from 'chai';
+import { describe } from 'mocha';
+import { AlLocation, AlLocationDescriptor, AlLocationDictionary, AlLocationValidator, AlLocatorMatrix } from '../src/locator';
+import { AlDataValidationError } from '../src/errors';
+
+describe( 'AlLocationValidator', () => {
+
+    it( "should find no errors in the default location dictionary", () => {
+        const diagnostics = AlLocationValidator.validate( AlLocationDictionary );
+        expect( diagnostics.filter( diagnostic => diagnostic.severity === 'error' ) ).to.deep.equal( [] );
+        expect( diagnostics.every( diagnostic => diagnostic.code === 'collision' ) ).to.equal( true );
+        const dashboards = diagnostics.find( diagnostic => diagnostic.locTypeId === AlLocation.DashboardsUI && diagnostic.environment === 'integration' );
+        expect( dashboards ).to.be.an( "object" );
+        expect( AlLocationDictionary[dashboards.index].uri ).to.equal( "https://dashboards.ui-dev.product.dev.alertlogic.com" );
+        expect( AlLocationDictionary[dashboards.relatedIndex].uri ).to.equal( "https://console.dashboards.product.dev.alertlogic.com" );
+    } );
+
+    it( "should report collisions, shadowed and unreachable aliases, dangling entry points, and malformed URIs", () => {
+        const nodes:AlLocationDescriptor[] = [
+            { locTypeId: "search", uri: "https://console.search.alertlogic.com", aliases: [ "https://console.search*.alertlogic.com" ], keyword: "search" },
+            { locTypeId: "search", uri: "https://console.search.alertlogic.com/v2", keyword: "search" },
+            { locTypeId: "searchlight", uri: "https://console.searchlight.alertlogic.com", keyword: "searchlight" },
+            { locTypeId: "kevin", uri: "https://kevin.alertlogic.com", aliases: [ "https://kev-*.alertlogic.com" ], uiEntryPoint: { locTypeId: "nowhere" } },
+            { locTypeId: "broken", uri: "https://not a url.alertlogic.com", aliases: [ "" ] }
+        ];
+        const diagnostics = AlLocationValidator.validate( nodes );
+        expect( diagnostics.map( diagnostic => `${diagnostic.code}:${diagnostic.severity}:${diagnostic.index}:${diagnostic.pattern || ''}` ) ).to.deep.equal( [
+            "collision:warning:1:",
+            "dangling-entry-point:error:3:",
+            "malformed-uri:error:4:https://not a url.alertlogic.com",
+            "malformed-uri:error:4:",
+            "unreachable-alias:warning:1:https://console.search.alertlogic.com/v2",
+            "shadowed-keyword:warning:2:https://console.searchlight.alertlogic.com",
+            "unreachable-alias:warning:3:https://kev-*.alertlogic.com"
+        ] );
+        expect( diagnostics[0].relatedIndex ).to.equal( 0 );
+        expect( diagnostics[5].relatedIndex ).to.equal( 0 );
+    } );
+
+    it( "should reject invalid locations in strict mode", () => {
+        const locator = new AlLocatorMatrix( AlLocationDictionary, false );
+        expect( locator.validateLocations( [ { locTypeId: "kevin", uri: "https://kevin.alertlogic.com", uiEntryPoint: { locTypeId: AlLocation.OverviewUI } } ] ) ).to.deep.equal( [] );
+        try {
+            locator.setLocations( [ { locTypeId: "kevin", uri: "https://kevin.alertlogic.com", uiEntryPoint: { locTypeId: "nowhere" } } ], true );
+            expect( true ).to.equal( false );
+        } catch( e ) {
+            expect( e ).to.be.an.instanceOf( AlDataValidationError );
+            expect( e.errors.length ).to.equal( 1 );
+            expect( e.errors[0].code ).to.equal( "dangling-entry-point" );
+        }
+        expect( locator.getNode( "kevin" ) ).to.equal( null );
+        locator.setLocations( [ { locTypeId: "kevin", uri: "https://kevin.alertlogic.com", uiEntryPoint: { locTypeId: "nowhere" } } ] );
+        expect( locator.getNode( "kevin" ) ).to.be.an( "object" );
+    } );
+
+} );
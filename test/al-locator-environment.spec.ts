@@ -0,0 +1,46 @@
+import { expect } from 'chai';
+import { describe } from 'mocha';
+import { AlLocation, AlLocationDictionary, AlLocatorMatrix, AlLocatorEnvironmentAdapter, AlBrowserEnvironmentAdapter, AlNodeEnvironmentAdapter } from '../src/locator';
+
+class TestEnvironmentAdapter extends AlNodeEnvironmentAdapter
+{
+    public time = 1000;
+    public warnings:string[] = [];
+
+    public now():number {
+        return this.time;
+    }
+
+    public warn( message:string ) {
+        this.warnings.push( message );
+    }
+}
+
+describe( 'AlLocatorEnvironmentAdapter', () => {
+
+    it( "should detect the platform", () => {
+        expect( AlLocatorEnvironmentAdapter.detect() ).to.be.an.instanceOf( AlBrowserEnvironmentAdapter );
+        expect( new AlBrowserEnvironmentAdapter().getLocation().startsWith( window.location.origin ) ).to.equal( true );
+        expect( new AlBrowserEnvironmentAdapter().now() ).to.be.within( Date.now() - 1000, Date.now() + 1000 );
+        expect( new AlNodeEnvironmentAdapter().getLocation() ).to.equal( "http://localhost:9999" );
+        expect( new AlNodeEnvironmentAdapter().now() ).to.be.a( "number" );
+    } );
+
+    it( "should be used by the locator in place of globals", () => {
+        const adapter = new TestEnvironmentAdapter( "https://console.overview.alertlogic.co.uk" );
+        const locator = new AlLocatorMatrix( AlLocationDictionary, true, undefined, adapter );
+        expect( locator.getActingNode().locTypeId ).to.equal( AlLocation.OverviewUI );
+        expect( locator.getContext().residency ).to.equal( "EMEA" );
+        expect( locator.resolveURL( "SomethingUnrecognizable", "/#/path" ) ).to.equal( "https://console.overview.alertlogic.co.uk/#/path" );
+
+        locator.resolveNodeURI( locator.getActingNode() );
+        expect( adapter.warnings.length ).to.equal( 1 );
+
+        adapter.location = "https://console.incidents.alertlogic.com";
+        locator.setActingUri( true );
+        expect( locator.getActingNode().locTypeId ).to.equal( AlLocation.IncidentsUI );
+        expect( locator.fork( { residency: "EMEA" } ).adapter ).to.equal( adapter );
+        expect( AlLocatorMatrix.fromSnapshot( locator.toSnapshot(), adapter ).adapter ).to.equal( adapter );
+    } );
+
+} );
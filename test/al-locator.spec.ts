@@ -1,6 +1,8 @@
 import { expect } from 'chai';
 import { describe } from 'mocha';
-import { AlLocation, AlLocationDescriptor, AlLocatorMatrix, AlLocationDictionary } from '../src/locator';
+import { AlDataValidationError, AlLocationTranslationError } from '../src/errors';
+import { AlLocation, AlLocationDescriptor, AlLocatorMatrix, AlLocationDictionary, AlLocationId, AlLocationIdOf,
+         AlLocatorContextChangedEvent, AlLocatorActorChangedEvent, AlLocatorNodesChangedEvent } from '../src/locator';
 
 describe( 'AlLocatorMatrix', () => {
 
@@ -31,26 +33,35 @@ describe( 'AlLocatorMatrix', () => {
             expect( node.residency ).to.equal( "EMEA" );
             expect( node.locTypeId ).to.equal( AlLocation.OverviewUI );
 
-            //  Make sure that aliased nodes work, and return a node with the URI pointing to themselves
+            //  Make sure that aliased nodes work, and resolve to a URI pointing to themselves
             let aliasNodeURL = "https://incidents-pr-12.ui-dev.product.dev.alertlogic.com/#/summary/12345678?aaid=12345678&locid=defender-uk-newport";
             let aliasNodeBase = "https://incidents-pr-12.ui-dev.product.dev.alertlogic.com";
-            node = locator.getNodeByURI( aliasNodeURL );
+            let resolved = locator.resolveNodeByURI( aliasNodeURL );
+            node = resolved.node;
             expect( node ).to.be.an( "object" );
             expect( node.environment ).to.equal( "integration" );
             expect( node.residency ).to.equal( undefined );
             expect( node.locTypeId ).to.equal( AlLocation.IncidentsUI );
-            expect( node.uri ).to.equal( aliasNodeBase );
+            expect( node.uri ).to.equal( "https://console.incidents.product.dev.alertlogic.com" );        //  the registered descriptor is unchanged
+            expect( resolved.uri ).to.equal( aliasNodeBase );
+            expect( resolved.captures ).to.deep.equal( [ "12" ] );
+            expect( resolved.parameters ).to.deep.equal( { prNumber: "12" } );
 
-            //  This should match the same node as above, but change the URL back to the canonical console.incidents.product.dev.alertlogic.com
+            //  This should match the same node as above, but resolve to the canonical console.incidents.product.dev.alertlogic.com
             aliasNodeURL = "https://console.incidents.product.dev.alertlogic.com/#/summary/12345678?aaid=12345678&locid=defender-uk-newport";
             aliasNodeBase = "https://console.incidents.product.dev.alertlogic.com";
-            let node2 = locator.getNodeByURI( aliasNodeURL );
-            expect( node2 ).to.be.an( "object" );
-            expect( node ).to.equal( node2 );
-            expect( node.environment ).to.equal( "integration" );
-            expect( node.residency ).to.equal( undefined );
-            expect( node.locTypeId ).to.equal( AlLocation.IncidentsUI );
-            expect( node.uri ).to.equal( aliasNodeBase );
+            let resolved2 = locator.resolveNodeByURI( aliasNodeURL );
+            expect( resolved2 ).to.be.an( "object" );
+            expect( resolved2.node ).to.equal( node );
+            expect( resolved2.uri ).to.equal( aliasNodeBase );
+            expect( resolved2.captures ).to.deep.equal( [] );
+            expect( resolved2.parameters ).to.deep.equal( {} );
+
+            //  Anonymous wildcards are captured, but not named
+            resolved2 = locator.resolveNodeByURI( "https://incidents-feature-xyz.ui-dev.product.dev.alertlogic.com/#/" );
+            expect( resolved2.node ).to.equal( node );
+            expect( resolved2.captures ).to.deep.equal( [ "feature-xyz" ] );
+            expect( resolved2.parameters ).to.deep.equal( {} );
 
             //  Beta navigation environment match
             aliasNodeURL = "https://incidents-beta-navigation.ui-dev.product.dev.alertlogic.com/#/summary/12345678?aaid=12345678&locid=defender-uk-newport";
@@ -65,11 +76,19 @@ describe( 'AlLocatorMatrix', () => {
             //  iris
             aliasNodeURL = "https://iris-ui-pr-8.ui-dev.product.dev.alertlogic.com/";
             aliasNodeBase = "https://iris-ui-pr-8.ui-dev.product.dev.alertlogic.com";
-            node = locator.getNodeByURI( aliasNodeURL );
-            expect( node ).to.be.an( "object" );
-            expect( node.environment ).to.equal( "integration" );
-            expect( node.locTypeId ).to.equal( AlLocation.IrisUI );
-            expect( node.uri ).to.equal( aliasNodeBase );
+            resolved = locator.resolveNodeByURI( aliasNodeURL );
+            expect( resolved.node ).to.be.an( "object" );
+            expect( resolved.node.environment ).to.equal( "integration" );
+            expect( resolved.node.locTypeId ).to.equal( AlLocation.IrisUI );
+            expect( resolved.uri ).to.equal( aliasNodeBase );
+        } );
+
+        it( "should not alter registered descriptors when resolving aliases", () => {
+            locator.getNodeByURI( "https://incidents-pr-123.ui-dev.product.dev.alertlogic.com/#/summary/2" );
+            expect( locator.resolveURL( AlLocation.IncidentsUI, '/#/summary/2', { environment: 'integration' } ) ).to.equal( "https://console.incidents.product.dev.alertlogic.com/#/summary/2" );
+            const matches = locator.search( node => node.locTypeId === AlLocation.IncidentsUI && node.environment === 'integration' );
+            expect( matches.length ).to.be.above( 0 );
+            matches.forEach( match => expect( match.uri ).to.equal( "https://console.incidents.product.dev.alertlogic.com" ) );
         } );
 
         it( "should propertly identify the acting node from the acting URL passed to the constructor", () => {
@@ -210,12 +229,20 @@ describe( 'AlLocatorMatrix', () => {
             expect( context.environment ).to.equal( "integration" );
             expect( context.residency ).to.equal( "US" );
 
+            //  Sibling applications with a matching templated alias resolve to their own PR preview
             let matching = locator.getNode( AlLocation.IncidentsUI );
             expect( matching ).to.be.an( 'object' );
             expect( matching.environment ).to.equal( 'integration' );
             expect( matching.residency ).to.equal( undefined );
-            expect( matching.uri ).to.equal( "https://console.incidents.product.dev.alertlogic.com" );
+            expect( matching.uri ).to.equal( "https://incidents-pr-199.ui-dev.product.dev.alertlogic.com" );
             expect( locator.resolveURL( AlLocation.InsightAPI, "/aims/v1/2/accounts" ) ).to.equal( "https://api.product.dev.alertlogic.com/aims/v1/2/accounts" );
+            expect( locator.resolveURL( AlLocation.RemediationsUI, "/#/" ) ).to.equal( "https://remediations-pr-199.ui-dev.product.dev.alertlogic.com/#/" );
+            expect( locator.resolveURL( AlLocation.IncidentsUI, "/#/", { environment: 'production' } ) ).to.equal( "https://console.incidents.alertlogic.com/#/" );
+
+            //  Non-templated aliases (e.g., feature branches) do not propagate to siblings
+            locator.setActingUri( 'https://overview-feature-xyz.ui-dev.product.dev.alertlogic.com/#/remediations-scan-status/2' );
+            expect( locator.resolveURL( AlLocation.IncidentsUI, "/#/" ) ).to.equal( "https://console.incidents.product.dev.alertlogic.com/#/" );
+            locator.setActingUri( 'https://overview-pr-199.ui-dev.product.dev.alertlogic.com/#/remediations-scan-status/2' );
 
             //  This is a super duper important test.  Once an alias domain has been recognized as the acting URL, it should
             //  *take over the base URI for that context*.
@@ -306,6 +333,260 @@ describe( 'AlLocatorMatrix', () => {
             let uri = locator.resolveURL( AlLocation.Auth0 );
             expect( uri ).to.equal( "https://alertlogic.auth0.com" );
         } );
+
+        it( "should resolve structured targets", () => {
+            const context = { residency: 'US', environment: 'production' };
+            expect( locator.resolveURL( AlLocation.SearchUI, { path: "search//expert/", query: { q: "a b&c", aaid: 2, locid: undefined } }, context ) )
+                .to.equal( "https://console.search.alertlogic.com/#/search/expert/?q=a%20b%26c&aaid=2" );
+            expect( locator.resolveURL( AlLocation.SearchUI, { path: "/#/search", query: { tag: [ "one", "two" ] }, fragment: "results" }, context ) )
+                .to.equal( "https://console.search.alertlogic.com/#/search/results?tag=one&tag=two" );
+            expect( locator.resolveURL( AlLocation.SearchUI, { path: "/#/search/", fragment: "#saved queries" }, context ) )
+                .to.equal( "https://console.search.alertlogic.com/#/search/saved%20queries" );
+            expect( locator.resolveURL( AlLocation.SearchUI, { fragment: "results" }, context ) ).to.equal( "https://console.search.alertlogic.com/#/results" );
+            expect( locator.resolveURL( AlLocation.SearchUI, {}, context ) ).to.equal( "https://console.search.alertlogic.com/#/" );
+            expect( locator.resolveURL( AlLocation.SearchUI, { path: "/legacy", hashRouting: false }, context ) ).to.equal( "https://console.search.alertlogic.com/legacy" );
+
+            expect( locator.resolveURL( AlLocation.SecurityContent, { path: "/articles/12", query: { lang: "en" }, fragment: "#top" }, context ) )
+                .to.equal( "https://scc.alertlogic.net/articles/12?lang=en#top" );
+            expect( locator.resolveURL( AlLocation.SecurityContent, {}, context ) ).to.equal( "https://scc.alertlogic.net" );
+            expect( locator.resolveURL( AlLocation.Auth0, { path: "authorize", query: { flag: true } }, context ) ).to.equal( "https://alertlogic.auth0.com/authorize?flag=true" );
+        } );
+    } );
+
+    describe( "diagnostics", () => {
+        it( "should explain how a node was selected", () => {
+            locator.setActingUri( 'https://console.overview.alertlogic.com/#/remediations-scan-status/2' );
+            let explanation = locator.explainNode( AlLocation.LegacyUI, { insightLocationId: 'defender-us-ashburn' } );
+            expect( explanation.cached ).to.equal( false );
+            expect( explanation.context.environment ).to.equal( 'production' );
+            expect( explanation.context.insightLocationId ).to.equal( 'defender-us-ashburn' );
+            expect( explanation.candidates.map( candidate => candidate.tier ) ).to.deep.equal( [ "insightLocationId" ] );
+            expect( explanation.matchedKey ).to.equal( `${AlLocation.LegacyUI}-production-US-defender-us-ashburn` );
+            expect( explanation.node.uri ).to.equal( "https://console.alertlogic.net" );
+
+            explanation = locator.explainNode( AlLocation.IncidentsUI );
+            expect( explanation.cached ).to.equal( false );
+            expect( explanation.candidates.map( candidate => `${candidate.tier}:${candidate.exists}` ) ).to.deep.equal( [
+                "insightLocationId:false", "accessible:false", "accessible:false", "residency:true"
+            ] );
+            expect( explanation.matchedKey ).to.equal( `${AlLocation.IncidentsUI}-production-US` );
+            expect( explanation.actingOverride ).to.equal( false );
+
+            locator.getNode( AlLocation.IncidentsUI );
+            explanation = locator.explainNode( AlLocation.IncidentsUI );
+            expect( explanation.cached ).to.equal( true );
+            expect( explanation.node ).to.equal( locator.getNode( AlLocation.IncidentsUI ) );
+
+            explanation = locator.explainNode( "SomethingUnrecognizable" );
+            expect( explanation.node ).to.equal( null );
+            expect( explanation.matchedKey ).to.equal( undefined );
+            expect( explanation.candidates[explanation.candidates.length - 1].tier ).to.equal( "default" );
+
+            locator.setActingUri( 'https://overview-pr-7.ui-dev.product.dev.alertlogic.com/#/' );
+            explanation = locator.explainNode( AlLocation.OverviewUI );
+            expect( explanation.actingOverride ).to.equal( true );
+            expect( explanation.node.uri ).to.equal( 'https://overview-pr-7.ui-dev.product.dev.alertlogic.com' );
+        } );
+
+        it( "should explain how a URI was resolved", () => {
+            let explanation = locator.explainURI( "https://incidents-pr-12.ui-dev.product.dev.alertlogic.com/#/summary/2" );
+            expect( explanation.resolved.node.locTypeId ).to.equal( AlLocation.IncidentsUI );
+            expect( explanation.probes.length ).to.be.above( 0 );
+            const hits = [].concat( ...explanation.probes.map( probe => probe.tested.filter( test => test.matched ) ) );
+            expect( hits.length ).to.be.above( 0 );
+            expect( hits.map( hit => hit.entry.matchExpression ) ).to.include( "https://incidents-pr-{prNumber}.ui-dev.product.dev.alertlogic.com" );
+
+            explanation = locator.explainURI( "https://lmgtfy.com/?q=cache+miss" );
+            expect( explanation.resolved ).to.equal( undefined );
+            expect( explanation.probes ).to.deep.equal( [] );
+        } );
+    } );
+
+    describe( "translateURL method", () => {
+        it( "should translate URLs between environments and residencies", () => {
+            expect( locator.translateURL( "https://incidents-pr-12.ui-dev.product.dev.alertlogic.com/#/summary/2?aaid=2&locid=defender-us-denver",
+                                          { environment: "production", residency: "EMEA" } ) )
+                .to.equal( "https://console.incidents.alertlogic.co.uk/#/summary/2?aaid=2&locid=defender-us-denver" );
+            expect( locator.translateURL( "https://console.overview.alertlogic.co.uk/path/to/page?query=1#fragment", { environment: "integration" } ) )
+                .to.equal( "https://console.overview.product.dev.alertlogic.com/path/to/page?query=1#fragment" );
+            expect( locator.translateURL( "https://console.search.alertlogic.com", { environment: "development" } ) ).to.equal( "http://localhost:4220" );
+        } );
+
+        it( "should ignore the acting URL when translating", () => {
+            locator.setActingUri( "https://incidents-pr-199.ui-dev.product.dev.alertlogic.com/#/" );
+            expect( locator.resolveURL( AlLocation.RemediationsUI ) ).to.equal( "https://remediations-pr-199.ui-dev.product.dev.alertlogic.com" );
+            expect( locator.translateURL( "https://console.remediations.alertlogic.com/#/", { environment: "integration" } ) )
+                .to.equal( "https://console.remediations.product.dev.alertlogic.com/#/" );
+        } );
+
+        it( "should fail with a typed error when there is no equivalent", () => {
+            try {
+                locator.translateURL( "https://lmgtfy.com/?q=cache+miss", { environment: "production" } );
+                expect( true ).to.equal( false );
+            } catch( e ) {
+                expect( e ).to.be.an.instanceOf( AlLocationTranslationError );
+                expect( e.reason ).to.equal( "unrecognized" );
+                expect( e.url ).to.equal( "https://lmgtfy.com/?q=cache+miss" );
+            }
+            try {
+                locator.translateURL( "https://scc.alertlogic.net/#/article/12", { environment: "integration" } );
+                expect( true ).to.equal( false );
+            } catch( e ) {
+                expect( e ).to.be.an.instanceOf( AlLocationTranslationError );
+                expect( e.reason ).to.equal( "no-equivalent" );
+                expect( e.locTypeId ).to.equal( AlLocation.SecurityContent );
+                expect( e.targetContext.environment ).to.equal( "integration" );
+            }
+        } );
+    } );
+
+    describe( "snapshots", () => {
+        it( "should reproduce the resolution of the locator that created them", () => {
+            locator.setLocations( [ { locTypeId: "kevin", uri: "https://kevin.alertlogic.com", environment: "integration|production" } ] );
+            locator.remapLocationToURI( AlLocation.OverviewUI, "http://localhost:9999", "integration" );
+            locator.setActingUri( "https://incidents-pr-199.ui-dev.product.dev.alertlogic.com/#/summary/2" );
+            locator.insightLocations.override( "insight-us-virginia", { alternatives: [ "defender-us-ashburn" ] } );
+            locator.setContext( { insightLocationId: "insight-us-virginia", accessible: [ "defender-us-denver" ] } );
+
+            const snapshot = JSON.parse( JSON.stringify( locator.toSnapshot() ) );
+            const restored = AlLocatorMatrix.fromSnapshot( JSON.stringify( snapshot ) );
+
+            expect( restored.getContext() ).to.deep.equal( locator.getContext() );
+            expect( restored.getActingNode().uri ).to.equal( "https://incidents-pr-199.ui-dev.product.dev.alertlogic.com" );
+            expect( restored.insightLocations.get( "insight-us-virginia" ).alternatives ).to.deep.equal( [ "defender-us-ashburn" ] );
+            const locTypeIds = locationDictionary.map( ( node:AlLocationDescriptor ) => node.locTypeId ).concat( [ "kevin" ] );
+            [ undefined, { environment: "production", residency: "EMEA" }, { environment: "development" } ].forEach( context => {
+                locTypeIds.forEach( ( locTypeId:string ) => {
+                    expect( restored.resolveURL( locTypeId, "/#/", context ), locTypeId ).to.equal( locator.resolveURL( locTypeId, "/#/", context ) );
+                } );
+            } );
+            [ "https://console.overview.product.dev.alertlogic.com", "https://kevin.alertlogic.com", "https://remediations-pr-15.ui-dev.product.dev.alertlogic.com" ].forEach( uri => {
+                expect( restored.getNodeByURI( uri ) ).to.deep.equal( JSON.parse( JSON.stringify( locator.getNodeByURI( uri ) ) ) );
+            } );
+        } );
+
+        it( "should reject unsupported snapshots", () => {
+            const snapshot = locator.toSnapshot();
+            snapshot.version = 0;
+            expect( () => AlLocatorMatrix.fromSnapshot( snapshot ) ).to.throw( AlDataValidationError );
+        } );
+    } );
+
+    describe( "change events", () => {
+        it( "should publish context changes only when the context actually changes", () => {
+            const events:AlLocatorContextChangedEvent[] = [];
+            locator.events.attach( AlLocatorContextChangedEvent, ( event:AlLocatorContextChangedEvent ) => events.push( event ) );
+
+            locator.setContext( { environment: "integration" } );
+            expect( events.length ).to.equal( 0 );
+
+            locator.setContext( { residency: "EMEA" } );
+            expect( events.length ).to.equal( 1 );
+            expect( events[0].previous.residency ).to.equal( "US" );
+            expect( events[0].current.residency ).to.equal( "EMEA" );
+
+            locator.setContext( { accessible: [ "defender-uk-newport" ] } );
+            expect( events.length ).to.equal( 2 );
+            expect( events[1].previous.accessible ).to.deep.equal( [ "defender-us-denver", "insight-us-virginia" ] );
+            expect( events[1].current.accessible ).to.deep.equal( [ "defender-uk-newport" ] );
+        } );
+
+        it( "should publish changes to the acting node", () => {
+            const events:AlLocatorActorChangedEvent[] = [];
+            locator.events.attach( AlLocatorActorChangedEvent, ( event:AlLocatorActorChangedEvent ) => events.push( event ) );
+
+            locator.setActingUri( "https://console.incidents.product.dev.alertlogic.com/#/summary/2?aaid=2&locid=defender-us-denver" );
+            expect( events.length ).to.equal( 0 );
+
+            locator.setActingUri( "https://console.overview.alertlogic.co.uk/#/remediations-scan-status/2" );
+            expect( events.length ).to.equal( 1 );
+            expect( events[0].previous.locTypeId ).to.equal( AlLocation.IncidentsUI );
+            expect( events[0].current.locTypeId ).to.equal( AlLocation.OverviewUI );
+            expect( events[0].currentUri ).to.equal( "https://console.overview.alertlogic.co.uk/#/remediations-scan-status/2" );
+
+            locator.reset();
+            expect( events.length ).to.equal( 2 );
+            expect( events[1].previous.locTypeId ).to.equal( AlLocation.OverviewUI );
+            expect( events[1].current ).to.equal( undefined );
+        } );
+
+        it( "should publish changes to the registered nodes", () => {
+            const events:AlLocatorNodesChangedEvent[] = [];
+            locator.events.attach( AlLocatorNodesChangedEvent, ( event:AlLocatorNodesChangedEvent ) => events.push( event ) );
+            locator.getNode( "kevin" );
+
+            locator.setLocations( [ { locTypeId: "kevin", uri: "https://kevin.alertlogic.com" } ] );
+            expect( events.length ).to.equal( 1 );
+            expect( events[0].locTypeIds ).to.deep.equal( [ "kevin" ] );
+            expect( events[0].current.length ).to.equal( events[0].previous.length + 1 );
+            expect( locator.resolveURL( "kevin", "/#/" ) ).to.equal( "https://kevin.alertlogic.com/#/" );
+
+            locator.remapLocationToURI( "kevin", "https://kevin-pr-1.alertlogic.com" );
+            expect( events.length ).to.equal( 2 );
+            expect( events[1].locTypeIds ).to.deep.equal( [ "kevin" ] );
+            expect( events[1].previous.find( node => node.locTypeId === "kevin" ).uri ).to.equal( "https://kevin.alertlogic.com" );
+            expect( events[1].current.find( node => node.locTypeId === "kevin" ).uri ).to.equal( "https://kevin-pr-1.alertlogic.com" );
+        } );
+    } );
+
+    describe( "forked locators", () => {
+        it( "should override part of the context while sharing nodes with the parent", () => {
+            locator.setActingUri( "https://console.overview.alertlogic.com/#/remediations-scan-status/2" );
+            const emea = locator.fork( { residency: "EMEA" } );
+
+            expect( emea.getContext().residency ).to.equal( "EMEA" );
+            expect( emea.getContext().insightLocationId ).to.equal( undefined );
+            expect( emea.getActingNode() ).to.equal( locator.getActingNode() );
+            expect( emea.resolveURL( AlLocation.IncidentsUI, "/#/" ) ).to.equal( "https://console.incidents.alertlogic.co.uk/#/" );
+            expect( locator.resolveURL( AlLocation.IncidentsUI, "/#/" ) ).to.equal( "https://console.incidents.alertlogic.com/#/" );
+
+            emea.setLocations( [ { locTypeId: "kevin", uri: "https://kevin.alertlogic.com" } ] );
+            expect( locator.resolveURL( "kevin" ) ).to.equal( "https://kevin.alertlogic.com" );
+            locator.remapLocationToURI( "kevin", "https://kevin.alertlogic.co.uk" );
+            expect( emea.resolveURL( "kevin" ) ).to.equal( "https://kevin.alertlogic.co.uk" );
+        } );
+
+        it( "should track changes to the parent's context", () => {
+            locator.setActingUri( "https://console.overview.alertlogic.com/#/remediations-scan-status/2" );
+            const emea = locator.fork( { residency: "EMEA" } );
+            const events:AlLocatorContextChangedEvent[] = [];
+            emea.events.attach( AlLocatorContextChangedEvent, ( event:AlLocatorContextChangedEvent ) => events.push( event ) );
+
+            emea.getNode( AlLocation.IncidentsUI );
+            locator.setContext( { environment: "integration" } );
+            expect( events.length ).to.equal( 1 );
+            expect( emea.getContext().environment ).to.equal( "integration" );
+            expect( emea.getContext().residency ).to.equal( "EMEA" );
+            expect( emea.resolveURL( AlLocation.IncidentsUI ) ).to.equal( locator.resolveURL( AlLocation.IncidentsUI ) );
+
+            emea.setContext( { environment: "production" } );
+            locator.setContext( { residency: "US" } );
+            expect( emea.getContext().environment ).to.equal( "production" );
+
+            emea.dispose();
+            locator.setContext( { environment: "integration" } );
+            expect( emea.getContext().environment ).to.equal( "production" );
+        } );
+    } );
+
+    describe( "typed location identifiers", () => {
+        class CustomLocations extends AlLocation {
+            public static readonly KevinUI = "kevin:ui";
+        }
+
+        it( "should accept the identifiers of registered constants", () => {
+            const typed = new AlLocatorMatrix<AlLocationIdOf<typeof CustomLocations>>( locationDictionary, false );
+            typed.setLocations( [ { locTypeId: CustomLocations.KevinUI, uri: "https://kevin.alertlogic.com" } ] );
+            expect( typed.resolveURL( CustomLocations.KevinUI ) ).to.equal( "https://kevin.alertlogic.com" );
+            expect( typed.resolveURL( AlLocation.IncidentsUI ) ).to.equal( "https://console.incidents.alertlogic.com" );
+            expect( typed.fork( { residency: "EMEA" } ).resolveURL( "cd17:incidents" ) ).to.equal( "https://console.incidents.alertlogic.co.uk" );
+        } );
+
+        it( "should not resolve identifiers that escape the typed set at runtime", () => {
+            const typed = new AlLocatorMatrix<AlLocationId>( locationDictionary, false );
+            const misspelled = "cd17:incidnts" as AlLocationId;
+            expect( typed.getNode( misspelled ) ).to.equal( null );
+        } );
     } );
 
     describe( "resolution by URI", () => {
@@ -334,11 +615,13 @@ describe( 'AlLocatorMatrix', () => {
                     return urls[ Math.floor( Math.random() * urls.length ) ];
                 }
             };
+            const uris:string[] = [];
             for ( let i = 0; i < iterations; i++ ) {
-                let node = locator.getNodeByURI( getRandomURI() );
+                uris.push( getRandomURI() );
             }
-            let averageLookup = AlLocatorMatrix.totalTime / AlLocatorMatrix.totalSeeks;
-            console.log(`Average lookup time: ${averageLookup}ms (${AlLocatorMatrix.totalSeeks} lookups)` );
+            const start = performance.now();
+            uris.forEach( uri => locator.getNodeByURI( uri ) );
+            let averageLookup = ( performance.now() - start ) / iterations;
 
             //  Average lookup time SHOULD be less than 0.1 ms (actually, a great deal faster than that).  If it's slower, something is wrong!
             expect( averageLookup ).to.be.below( 0.1 );
@@ -0,0 +1,49 @@
+import { expect } from 'chai';
+import { describe } from 'mocha';
+import { AlDataValidationError } from '../src/errors';
+import { AlJsonSchema, AlMicroJsonValidator } from '../src/utility';
+
+describe( 'AlMicroJsonValidator', () => {
+
+    const schema:AlJsonSchema = {
+        $id: "test-schema",
+        type: "object",
+        properties: {
+            name:       { type: "string" },
+            tags:       { type: "array", items: { type: "string" } },
+            parent:     { $ref: "#/definitions/reference" }
+        },
+        required: [ "name" ],
+        additionalProperties: false,
+        definitions: {
+            reference: { type: "object", properties: { id: { type: "string" } }, required: [ "id" ] }
+        }
+    };
+    const validator = new AlMicroJsonValidator( schema );
+
+    it( "should report every discrepancy when validating against a schema", () => {
+        expect( () => validator.validate( "test-schema", { name: "test", tags: [ "one" ], parent: { id: "2" } } ) ).not.to.throw();
+        try {
+            validator.validate( "test-schema", { tags: [ "one", 2 ], parent: {}, extra: true } );
+            expect.fail( "validation should have failed" );
+        } catch( e ) {
+            expect( e ).to.be.instanceOf( AlDataValidationError );
+            expect( e.schemaId ).to.equal( "test-schema" );
+            expect( e.errors ).to.deep.equal( [
+                "Value at '' is missing required property 'name'",
+                "Value at '.tags.1' was not of expected type 'string'",
+                "Value at '.parent' is missing required property 'id'",
+                "Value at '' has unexpected property 'extra'"
+            ] );
+        }
+    } );
+
+    it( "should throw from validateStructure, and return nothing, as it always has", () => {
+        expect( validator.validateStructure( { name: "test" }, "test-schema" ) ).to.equal( undefined );
+        expect( validator.validateStructure( [ "one" ], { type: "array", items: { type: "string" } } ) ).to.equal( undefined );
+        expect( () => validator.validateStructure( "test", "test-schema" ) ).to.throw( AlDataValidationError, "Value at '' was not of expected type 'object'" );
+        expect( () => validator.validateStructure( [ 1 ], { type: "array", items: { type: "string" } }, [ "list" ] ) )
+            .to.throw( AlDataValidationError, "Value at 'list.0' was not of expected type 'string'" );
+    } );
+
+} );
@@ -0,0 +1,108 @@
+import { expect } from 'chai';
+import { describe } from 'mocha';
+import { AlDataValidationError } from '../src/errors';
+import { AlNavigationSchema, AlNavigationSchemaLoader, AlRouteAction } from '../src/locator';
+
+describe( 'AlNavigationSchemaLoader', () => {
+
+    const base:AlNavigationSchema = {
+        name: "base",
+        description: "The base navigation schema",
+        menus: {
+            primary: {
+                caption: "Primary",
+                children: [
+                    { id: "dashboards", caption: "Dashboards", action: "dashboards", bookmarkId: "dashboards", properties: { icon: "dashboard" } },
+                    { id: "incidents", caption: "Incidents", action: { type: "link", location: "cd17:incidents", path: "/#/" }, visible: { entitlements: "cloud_defender|cloud_insight" } }
+                ]
+            }
+        },
+        namedRoutes: {
+            dashboards: { caption: "Dashboards", action: { type: "link", location: "cd19:dashboards", path: "/#/" } }
+        }
+    };
+
+    const attempt = ( ...documents:any[] ):AlDataValidationError => {
+        try {
+            AlNavigationSchemaLoader.load( ...documents );
+        } catch( e ) {
+            return e;
+        }
+        return null;
+    };
+
+    it( "should load valid schemas and their serializations", () => {
+        expect( AlNavigationSchemaLoader.load( base ) ).to.deep.equal( base );
+        expect( AlNavigationSchemaLoader.load( JSON.stringify( base ) ) ).to.deep.equal( base );
+    } );
+
+    it( "should reject schemas that do not match the JSON schema", () => {
+        const error = attempt( { name: "broken", menus: { primary: { children: [] } }, surprise: true } );
+        expect( error ).to.be.an.instanceOf( AlDataValidationError );
+        expect( error.errors ).to.include( "Value at '' has unexpected property 'surprise'" );
+        expect( error.errors ).to.include( "Value at '.menus.primary' is missing required property 'caption'" );
+        expect( attempt( { name: "broken", menus: { primary: { caption: "Primary", action: { path: "/#/" } } } } ).errors ).to.deep.equal(
+            [ "Value at '.menus.primary.action' is missing required property 'type'" ] );
+    } );
+
+    it( "should report dangling references, duplicate bookmarks, and malformed entitlements", () => {
+        const error = attempt( {
+            name: "broken",
+            menus: {
+                primary: { caption: "Primary", bookmarkId: "top", children: [ { caption: "Child", action: "nowhere", bookmarkId: "top", visible: { rule: "any", conditions: [ { entitlements: "a|" } ] } } ] }
+            },
+            namedRoutes: {
+                indirect: { caption: "Indirect", action: "dashboards" }
+            }
+        } );
+        expect( error.errors.length ).to.equal( 5 );
+        expect( error.errors ).to.include( "Route at '.menus.primary.children.0' reuses bookmark ID 'top' from '.menus.primary'" );
+        expect( error.errors ).to.include( "Route at '.menus.primary.children.0' refers to undefined named route 'nowhere'" );
+        expect( error.errors ).to.include( "Route at '.namedRoutes.indirect' refers to undefined named route 'dashboards'" );
+        expect( error.errors.filter( message => message.includes( "malformed entitlement expression" ) ).length ).to.equal( 1 );
+    } );
+
+    it( "should merge overlays into a base schema", () => {
+        const overlay:Partial<AlNavigationSchema> = {
+            name: "incidents-overlay",
+            menus: {
+                primary: {
+                    caption: "Primary",
+                    children: [
+                        { id: "incidents", caption: "Threats", properties: { badge: 2 }, children: [ { caption: "Summary", action: "summary" } ] },
+                        { caption: "Reports", action: { type: "link", location: "insight:bi", path: "/" } }
+                    ]
+                },
+                secondary: { caption: "Secondary" }
+            },
+            namedRoutes: {
+                summary: { caption: "Summary", action: { type: "link", location: "cd17:incidents", path: "/#/summary" } },
+                dashboards: base.namedRoutes.dashboards
+            }
+        };
+        const schema = AlNavigationSchemaLoader.load( base, overlay );
+        expect( schema.name ).to.equal( "base" );
+        expect( schema.description ).to.equal( "The base navigation schema" );
+        expect( Object.keys( schema.menus ) ).to.deep.equal( [ "primary", "secondary" ] );
+        expect( schema.menus.primary.children.map( child => child.caption ) ).to.deep.equal( [ "Dashboards", "Threats", "Reports" ] );
+        expect( schema.menus.primary.children[1].visible ).to.deep.equal( { entitlements: "cloud_defender|cloud_insight" } );
+        expect( schema.menus.primary.children[1].properties ).to.deep.equal( { badge: 2 } );
+        expect( schema.menus.primary.children[1].children.length ).to.equal( 1 );
+        expect( Object.keys( schema.namedRoutes ) ).to.deep.equal( [ "dashboards", "summary" ] );
+        expect( base.menus.primary.children.length ).to.equal( 2 );
+    } );
+
+    it( "should reject conflicting named routes", () => {
+        const overlay = { name: "overlay", namedRoutes: { dashboards: { caption: "Dashboards", action: { type: "link", location: "cd17:overview", path: "/#/" } } } };
+        const error = attempt( base, overlay );
+        expect( error ).to.be.an.instanceOf( AlDataValidationError );
+        expect( error.errors ).to.deep.equal( [ "Named route 'dashboards' is defined by both 'base' and 'overlay'" ] );
+    } );
+
+    it( "should resolve named route references", () => {
+        const resolved = AlNavigationSchemaLoader.resolveNamedRoutes( base );
+        expect( ( resolved.menus.primary.children[0].action as AlRouteAction ).location ).to.equal( "cd19:dashboards" );
+        expect( base.menus.primary.children[0].action ).to.equal( "dashboards" );
+    } );
+
+} );
@@ -0,0 +1,87 @@
+import { expect } from 'chai';
+import { describe } from 'mocha';
+import { AlRoute, AlRouteCondition, AlRouteConditionCompiler } from '../src/locator';
+import * as sinon from 'sinon';
+
+describe( 'AlRouteConditionCompiler', () => {
+
+    let host:any;
+
+    beforeEach( () => {
+        host = {
+            currentUrl: "https://console.overview.alertlogic.com/#/remediations-scan-status/2",
+            routeParameters: { accountId: "2" } as {[parameter:string]:string},
+            setRouteParameter: () => {},
+            deleteRouteParameter: () => {},
+            setBookmark: () => {},
+            getBookmark: ():AlRoute => null,
+            dispatch: () => {},
+            evaluate: ( condition:AlRouteCondition ) => condition.entitlements === 'a'
+        };
+    } );
+
+    it( "should describe the inputs of a condition and its children", () => {
+        const compiled = AlRouteConditionCompiler.compile( {
+            rule: 'any',
+            parameters: [ "accountId=2", "userId" ],
+            conditions: [
+                { path_matches: '/remediations.*' },
+                { parameters: [ "deploymentId!=1", "accountId" ], environments: [ 'integration' ] }
+            ]
+        } );
+        expect( compiled.inputs ).to.deep.equal( { parameters: [ "deploymentId", "accountId", "userId" ], url: true, environment: true, entitlements: false } );
+        expect( AlRouteConditionCompiler.compile( true ).inputs.parameters.length ).to.equal( 0 );
+    } );
+
+    it( "should only reevaluate conditions whose inputs have changed", () => {
+        const route = new AlRoute( host, {
+            caption: "Parent",
+            visible: { parameters: [ "accountId" ] },
+            children: [
+                { caption: "Child", visible: { rule: 'all', conditions: [ { path_matches: '/remediations.*' }, { parameters: [ "userId" ] } ] } }
+            ]
+        } );
+        const parameterSpy = sinon.spy( route, "evaluateParameterExpression" );
+        const pathSpy = sinon.spy( route.children[0], "evaluatePathMatch" );
+
+        route.refresh();
+        expect( parameterSpy.callCount ).to.equal( 0 );
+        expect( pathSpy.callCount ).to.equal( 0 );
+
+        host.routeParameters.userId = "abc";
+        route.refresh();
+        expect( parameterSpy.callCount ).to.equal( 0 );
+        expect( pathSpy.callCount ).to.equal( 0 );          //  the path match's inputs haven't changed
+        expect( route.children[0].visible ).to.equal( true );
+
+        host.routeParameters.accountId = "3";
+        host.currentUrl = "https://console.overview.alertlogic.com/#/somewhere-else";
+        route.refresh();
+        expect( parameterSpy.callCount ).to.equal( 1 );
+        expect( pathSpy.callCount ).to.equal( 1 );
+        expect( route.children[0].visible ).to.equal( false );
+
+        parameterSpy.restore();
+        pathSpy.restore();
+    } );
+
+    it( "should always reevaluate entitlements that are evaluated by the host", () => {
+        const route = new AlRoute( host, { caption: "Route", visible: { entitlements: 'a' } } );
+        const evaluateSpy = sinon.spy( host, "evaluate" );
+        route.refresh();
+        route.refresh();
+        expect( evaluateSpy.callCount ).to.equal( 2 );
+
+        host.entitlements = [ "a" ];
+        route.refresh();
+        route.refresh();
+        expect( evaluateSpy.callCount ).to.equal( 2 );
+        expect( route.visible ).to.equal( true );
+        evaluateSpy.restore();
+    } );
+
+    it( "should cache regular expressions", () => {
+        expect( AlRouteConditionCompiler.getPattern( "^abc$" ) ).to.equal( AlRouteConditionCompiler.getPattern( "^abc$" ) );
+    } );
+
+} );
@@ -409,6 +409,247 @@ describe( 'AlRoute', () => {
 
             saveStub.restore();
         } );
+
+        it( "should serialize its evaluated state and hydrate without reevaluating conditions", () => {
+            routingHost.currentUrl = "https://console.overview.alertlogic.com/#/child-route-1";
+            const menu:AlRoute = new AlRoute( routingHost, menuDefinition );
+            menu.children[1].setProperty( "badge", 3 );
+            const serialized = JSON.stringify( menu );
+
+            let evaluateStub = sinon.stub( routingHost, "evaluate" ).returns( false );
+            const hydrated = AlRoute.hydrate( routingHost, serialized );
+            expect( evaluateStub.callCount ).to.equal( 0 );
+            evaluateStub.restore();
+
+            expect( hydrated.toJSON() ).to.deep.equal( menu.toJSON() );
+            expect( hydrated.activated ).to.equal( true );
+            expect( hydrated.children[0].children[0].href ).to.equal( 'https://console.overview.alertlogic.com/#/child-route-1' );
+            expect( hydrated.children[0].children[2].visible ).to.equal( false );
+            expect( hydrated.children[1].getProperty( "badge" ) ).to.equal( 3 );
+            expect( hydrated.findChild( "overview/child3/grandchild" ).parent ).to.equal( hydrated.children[0].children[2] );
+            expect( hydrated.children[0].definition.children.length ).to.equal( 3 );
+
+            hydrated.refresh( true );
+            expect( hydrated.children[0].children[2].visible ).to.equal( false );
+            expect( hydrated.children[0].children[0].visible ).to.equal( true );
+        } );
+    } );
+
+    describe( "reverse routing", () => {
+        const definition:AlRouteDefinition = {
+            caption: "Menu",
+            children: [
+                { caption: "Overview", action: { type: "link", location: AlLocation.OverviewUI, path: "/#/" } },
+                { caption: "Scan Status", action: { type: "link", location: AlLocation.OverviewUI, path: "/#/remediations-scan-status/:accountId" } },
+                { caption: "Search", action: { type: "link", location: AlLocation.SearchUI, path: "/#/search/:accountId/:query%" } },
+                { caption: "Recent Searches", action: { type: "link", location: AlLocation.SearchUI, path: "/#/search/:accountId/recent" } },
+                { caption: "Docs", action: { type: "link", url: "https://docs.alertlogic.com/" } }
+            ]
+        };
+
+        it( "should match URLs to routes and extract their path parameters", () => {
+            AlLocatorService.setActingUri( "https://console.overview.alertlogic.com" );
+            const menu = new AlRoute( routingHost, definition );
+            const scanStatus = menu.children[1];
+            expect( scanStatus.match( "https://console.overview.alertlogic.com/#/remediations-scan-status/12345/?aaid=2" ) ).to.deep.equal( { route: scanStatus, parameters: { accountId: "12345" } } );
+            expect( scanStatus.match( "https://console.overview.alertlogic.com/#/remediations-scan-status" ) ).to.equal( null );
+            expect( scanStatus.match( "https://console.incidents.alertlogic.com/#/remediations-scan-status/2" ) ).to.equal( null );
+            expect( menu.match( "https://console.overview.alertlogic.com/#/" ) ).to.equal( null );
+
+            const search = menu.children[2];
+            expect( search.match( "https://console.search.alertlogic.com/#/search/2/some%20query" ).parameters ).to.deep.equal( { accountId: "2", query: "some query" } );
+            expect( search.match( "https://console.search.alertlogic.com/#/search/2" ).parameters ).to.deep.equal( { accountId: "2" } );
+            expect( menu.children[4].match( "https://docs.alertlogic.com" ).parameters ).to.deep.equal( {} );
+        } );
+
+        it( "should find the best matching route in a tree", () => {
+            const menu = new AlRoute( routingHost, definition );
+            expect( menu.findRouteByUrl( "https://console.overview.alertlogic.com/#/" ).route ).to.equal( menu.children[0] );
+            expect( menu.findRouteByUrl( "https://console.search.alertlogic.com/#/search/2/recent" ).route ).to.equal( menu.children[3] );
+            expect( menu.findRouteByUrl( "https://console.search.alertlogic.com/#/search/2/recently" ).route ).to.equal( menu.children[2] );
+            expect( menu.findRouteByUrl( "https://console.landscape.alertlogic.com/#/" ) ).to.equal( null );
+        } );
+
+        it( "should keep malformed path parameters as they are", () => {
+            const menu = new AlRoute( routingHost, definition );
+            expect( menu.findRouteByUrl( "https://console.search.alertlogic.com/#/search/2/%E0" ) )
+                .to.deep.equal( { route: menu.children[2], parameters: { accountId: "2", query: "%E0" } } );
+            expect( menu.findRouteByUrl( "https://console.overview.alertlogic.com/#/remediations-scan-status/%E0%A4" ).parameters )
+                .to.deep.equal( { accountId: "%E0%A4" } );
+        } );
+    } );
+
+    describe( "breadcrumbs and page titles", () => {
+        const definition:AlRouteDefinition = {
+            caption: "Menu",
+            children: [
+                {
+                    caption: "Incidents",
+                    children: [
+                        { caption: "List", bubble: true, action: { type: "link", location: AlLocation.IncidentsUI, path: "/#/incidents/:accountId" } },
+                        {
+                            caption: "Groups",
+                            action: { type: "link", location: AlLocation.IncidentsUI, path: "/#/incidents/:accountId/groups" },
+                            visible: { parameters: [ "showGroups" ] },
+                            children: [
+                                {
+                                    caption: "Incident",
+                                    action: { type: "link", location: AlLocation.IncidentsUI, path: "/#/incidents/:accountId/:incidentId" },
+                                    properties: { breadcrumb: "Incident {incidentId}", title: "{caption} {incidentId} | Alert Logic" }
+                                }
+                            ]
+                        }
+                    ]
+                }
+            ]
+        };
+        let originalUrl:string;
+
+        beforeEach( () => {
+            originalUrl = routingHost.currentUrl;
+            routingHost.routeParameters["incidentId"] = "ABCD";
+        } );
+        afterEach( () => {
+            routingHost.currentUrl = originalUrl;
+            delete routingHost.routeParameters["incidentId"];
+        } );
+
+        it( "should skip hidden routes and interpolate breadcrumb and title templates", () => {
+            routingHost.currentUrl = "https://console.incidents.alertlogic.com/#/incidents/2/ABCD";
+            const menu = new AlRoute( routingHost, definition );
+            const breadcrumbs = menu.getBreadcrumbs();
+            expect( breadcrumbs.map( breadcrumb => breadcrumb.caption ) ).to.deep.equal( [ "Incidents", "Incident ABCD" ] );
+            expect( breadcrumbs.map( breadcrumb => breadcrumb.href ) ).to.deep.equal( [
+                "https://console.incidents.alertlogic.com/#/incidents/2",
+                "https://console.incidents.alertlogic.com/#/incidents/2/ABCD"
+            ] );
+            expect( breadcrumbs[1].route ).to.equal( menu.findChild( "Incidents/Groups/Incident" ) );
+            expect( menu.getPageTitle() ).to.equal( "Incident ABCD | Alert Logic" );
+        } );
+
+        it( "should collapse bubbling routes into their parents, and include containers on request", () => {
+            routingHost.currentUrl = "https://console.incidents.alertlogic.com/#/incidents/2";
+            const menu = new AlRoute( routingHost, definition );
+            expect( menu.getBreadcrumbs().map( breadcrumb => breadcrumb.caption ) ).to.deep.equal( [ "Incidents" ] );
+            const breadcrumbs = menu.getBreadcrumbs( { includeRoot: true, includeContainers: true } );
+            expect( breadcrumbs.map( breadcrumb => breadcrumb.caption ) ).to.deep.equal( [ "Menu", "Incidents" ] );
+            expect( breadcrumbs[0].href ).to.equal( undefined );
+            expect( menu.getPageTitle() ).to.equal( "Incidents" );
+
+            routingHost.currentUrl = "https://console.incidents.alertlogic.com/#/somewhere/else";
+            menu.refresh( true );
+            expect( menu.getBreadcrumbs() ).to.deep.equal( [] );
+            expect( menu.getPageTitle() ).to.equal( undefined );
+        } );
+    } );
+
+    describe( "guards", () => {
+        let dispatchStub:sinon.SinonStub;
+
+        beforeEach( () => {
+            dispatchStub = sinon.stub( routingHost, "dispatch" );
+        } );
+        afterEach( () => {
+            dispatchStub.restore();
+            delete ( routingHost as any ).guards;
+            delete ( routingHost as any ).getRouteByName;
+        } );
+
+        it( "should consult host, ancestor, and route guards in order, and cancel if any refuses", async () => {
+            const consulted:string[] = [];
+            let unsavedChanges = true;
+            ( routingHost as any ).guards = [ () => { consulted.push( "host" ); return true; } ];
+            const menu = new AlRoute( routingHost, { caption: "Menu", children: [ { caption: "Editor", action: { type: "callback" } } ] } );
+            menu.addGuard( () => { consulted.push( "menu" ); return Promise.resolve( true ); } );
+            const unregister = menu.children[0].addGuard( () => {
+                consulted.push( "editor" );
+                return unsavedChanges ? { outcome: "cancel", reason: "There are unsaved changes" } : true;
+            } );
+
+            const cancelled = await menu.children[0].dispatch();
+            expect( consulted ).to.deep.equal( [ "host", "menu", "editor" ] );
+            expect( cancelled ).to.deep.equal( { redirects: [], outcome: "cancel", route: menu.children[0], reason: "There are unsaved changes" } );
+            expect( dispatchStub.callCount ).to.equal( 0 );
+
+            unsavedChanges = false;
+            const allowed = await menu.children[0].dispatch( { mode: "edit" } );
+            expect( allowed.outcome ).to.equal( "allow" );
+            expect( allowed.dispatched ).to.equal( menu.children[0] );
+            expect( dispatchStub.args[0] ).to.deep.equal( [ menu.children[0], { mode: "edit" } ] );
+
+            unregister();
+            menu.addGuard( () => Promise.reject( new Error( "Service unavailable" ) ) );
+            const failed = await menu.children[0].dispatch();
+            expect( failed.outcome ).to.equal( "cancel" );
+            expect( failed.reason ).to.contain( "Service unavailable" );
+            expect( dispatchStub.callCount ).to.equal( 1 );
+        } );
+
+        it( "should redirect to named routes, and refuse to redirect in a loop", async () => {
+            const namedRoutes:{[routeName:string]:AlRouteDefinition} = {
+                upgrade: { caption: "Upgrade", action: { type: "link", location: AlLocation.OverviewUI, path: "/#/upgrade" } },
+                loop: { caption: "Loop", action: { type: "link", location: AlLocation.OverviewUI, path: "/#/loop" } }
+            };
+            ( routingHost as any ).getRouteByName = ( routeName:string ) => namedRoutes[routeName];
+            ( routingHost as any ).guards = [
+                ( route:AlRoute ) => route.caption === "Restricted" ? { outcome: "redirect", redirect: "upgrade", params: { from: "restricted" } } : true,
+                ( route:AlRoute ) => route.caption === "Loop" ? { outcome: "redirect", redirect: "loop" } : true
+            ];
+
+            const redirected = await AlRoute.link( routingHost, AlLocation.OverviewUI, "/#/restricted", "Restricted" ).dispatch();
+            expect( redirected.outcome ).to.equal( "redirect" );
+            expect( redirected.redirects ).to.deep.equal( [ "upgrade" ] );
+            expect( redirected.dispatched.caption ).to.equal( "Upgrade" );
+            expect( dispatchStub.callCount ).to.equal( 1 );
+            expect( dispatchStub.args[0][1] ).to.deep.equal( { from: "restricted" } );
+
+            const looped = await AlRoute.link( routingHost, AlLocation.OverviewUI, "/#/loop", "Loop" ).dispatch();
+            expect( looped.outcome ).to.equal( "cancel" );
+            expect( looped.redirects ).to.deep.equal( [ "loop" ] );
+            namedRoutes.upgrade = undefined;
+            const missing = await AlRoute.link( routingHost, AlLocation.OverviewUI, "/#/restricted", "Restricted" ).dispatch();
+            expect( missing.outcome ).to.equal( "cancel" );
+            expect( missing.reason ).to.contain( "unknown named route 'upgrade'" );
+            expect( dispatchStub.callCount ).to.equal( 1 );
+        } );
+
+        it( "should dispatch a resolved redirect target without replacing its bookmark", async () => {
+            const definition:AlRouteDefinition = {
+                caption: "Upgrade",
+                bookmarkId: "upgrade",
+                action: { type: "link", location: AlLocation.OverviewUI, path: "/#/upgrade" },
+                children: [ { caption: "Plans", bookmarkId: "plans", action: { type: "link", location: AlLocation.OverviewUI, path: "/#/upgrade/plans" } } ]
+            };
+            const upgrade = new AlRoute( routingHost, definition );
+            ( routingHost as any ).getRouteByName = () => definition;
+            ( routingHost as any ).guards = [ ( route:AlRoute ) => route.caption === "Restricted" ? { outcome: "redirect", redirect: "upgrade" } : true ];
+            const restricted = AlRoute.link( routingHost, AlLocation.OverviewUI, "/#/restricted", "Restricted" );
+            const setBookmark = sinon.spy( routingHost, "setBookmark" );
+            try {
+                const redirected = await restricted.dispatch();
+                expect( redirected.outcome ).to.equal( "redirect" );
+                expect( redirected.dispatched.caption ).to.equal( "Upgrade" );
+                expect( redirected.dispatched ).not.to.equal( upgrade );
+                expect( setBookmark.callCount ).to.equal( 0 );
+            } finally {
+                setBookmark.restore();
+            }
+            const dispatched:AlRoute = dispatchStub.args[0][0];
+            expect( dispatched.href ).to.equal( "https://console.overview.alertlogic.com/#/upgrade" );
+            expect( dispatched.visible ).to.equal( true );
+        } );
+
+        it( "should cancel navigation when a guard returns an invalid result", async () => {
+            ( routingHost as any ).guards = [ () => undefined, () => ( { outcome: "proceed" } ) ];
+            const route = AlRoute.link( routingHost, AlLocation.OverviewUI, "/#/restricted", "Restricted" );
+            const invalid = await route.dispatch();
+            expect( invalid.outcome ).to.equal( "cancel" );
+            expect( invalid.route ).to.equal( route );
+            expect( invalid.reason ).to.contain( "A guard returned an invalid result" );
+            ( routingHost as any ).guards = [ () => ( { outcome: "proceed" } ) ];
+            expect( ( await route.dispatch() ).outcome ).to.equal( "cancel" );
+            expect( dispatchStub.callCount ).to.equal( 0 );
+        } );
     } );
 
     describe( "conditional evaluation", () => {
@@ -538,4 +779,86 @@ describe( 'AlRoute', () => {
         } );
 
     } );
+
+    describe( "entitlement evaluation", () => {
+        it( "should evaluate entitlement expressions against the host's entitlements, if it provides them", () => {
+            const host = Object.assign( {}, routingHost, { entitlements: [ "cloud_defender", "log_manager" ] } );
+            let evaluateStub = sinon.stub( host, "evaluate" ).returns( true );
+            const route = new AlRoute( host, {
+                caption: "Something",
+                visible: { entitlements: "cloud_*&!tmc" }
+            } );
+            expect( route.visible ).to.equal( true );
+
+            host.entitlements = [ "tmc", "cloud_insight" ];
+            route.refresh();
+            expect( route.visible ).to.equal( false );
+            expect( evaluateStub.callCount ).to.equal( 0 );
+            evaluateStub.restore();
+        } );
+    } );
+
+    describe( "asynchronous evaluation", () => {
+
+        const definition:AlRouteDefinition = {
+            caption: "Menu",
+            children: [
+                { caption: "Sync", visible: { entitlements: 'a' } },
+                { caption: "Async", visible: { entitlements: 'slow' } },
+                { caption: "Async Again", visible: { rule: 'any', conditions: [ { entitlements: 'slow' }, { entitlements: 'b' } ] } },
+                { caption: "Broken", visible: { entitlements: 'broken' } }
+            ]
+        };
+
+        it( "should mark routes pending until their conditions settle, evaluating each condition once per cycle", async () => {
+            let settle:(value:boolean)=>void = () => {};
+            const calls:string[] = [];
+            const host = Object.assign( {}, routingHost, {
+                evaluateAsync: ( condition:AlRouteCondition ):Promise<boolean>|boolean => {
+                    calls.push( condition.entitlements );
+                    if ( condition.entitlements === 'slow' ) {
+                        return new Promise<boolean>( resolve => settle = resolve );
+                    } else if ( condition.entitlements === 'broken' ) {
+                        return Promise.reject( new Error( "Entitlements unavailable" ) );
+                    }
+                    return routingHost.evaluate( condition );
+                }
+            } );
+            const menu = new AlRoute( host, definition );
+            expect( menu.children[1].visible ).to.equal( false );        //  synchronous evaluation falls back on `evaluate`
+            expect( menu.children[1].pending ).to.equal( false );
+
+            const refreshed = menu.refreshAsync();
+            expect( menu.children[0].visible ).to.equal( true );
+            expect( menu.children[0].pending ).to.equal( false );
+            expect( menu.children[1].pending ).to.equal( true );
+            expect( menu.children[1].visible ).to.equal( false );
+            expect( menu.children[2].pending ).to.equal( true );
+
+            settle( true );
+            await refreshed;
+            expect( menu.children[1].pending ).to.equal( false );
+            expect( menu.children[1].visible ).to.equal( true );
+            expect( menu.children[2].visible ).to.equal( true );
+            expect( menu.children[3].pending ).to.equal( false );
+            expect( menu.children[3].visible ).to.equal( false );
+            expect( calls.filter( entitlement => entitlement === 'slow' ).length ).to.equal( 1 );
+
+            calls.length = 0;
+            const again = menu.refreshAsync();
+            settle( false );
+            await again;
+            expect( calls.filter( entitlement => entitlement === 'slow' ).length ).to.equal( 1 );
+            expect( menu.children[1].visible ).to.equal( false );
+        } );
+
+        it( "should fall back on synchronous evaluation if the host does not evaluate asynchronously", async () => {
+            const menu = new AlRoute( routingHost, definition );
+            const activated = await menu.refreshAsync();
+            expect( activated ).to.equal( false );
+            expect( menu.children[0].visible ).to.equal( true );
+            expect( menu.children[1].pending ).to.equal( false );
+        } );
+
+    } );
 } );